@@ -0,0 +1,56 @@
+// Standalone collector loop for self-hosted deployments without a cron.
+// Calls /api/collect and then /api/alerts/evaluate on a fixed interval and
+// logs each batch.
+//
+//   COLLECT_URL=http://localhost:3000/api/collect \
+//   COLLECT_INTERVAL_SECONDS=300 \
+//   npm run collect
+
+const url = process.env.COLLECT_URL ?? 'http://localhost:3000/api/collect';
+const alertsUrl = process.env.ALERTS_URL ?? new URL('/api/alerts/evaluate', url).href;
+const intervalMs = (Number(process.env.COLLECT_INTERVAL_SECONDS) || 300) * 1000;
+const secret = process.env.CRON_SECRET;
+
+const collect = async () => {
+  try {
+    const res = await fetch(url, {
+      headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+    const failed = json.failed.map(f => `${f.appid} (${f.error})`).join(', ');
+    console.log(
+      `[${new Date().toISOString()}] collected ${json.collected.length}` +
+      (failed ? `, failed: ${failed}` : '')
+    );
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] collect failed:`, error.message);
+  }
+};
+
+const evaluateAlerts = async () => {
+  try {
+    const res = await fetch(alertsUrl, {
+      headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+    const failed = json.failed.map(f => `${f.id} (${f.error})`).join(', ');
+    console.log(
+      `[${new Date().toISOString()}] evaluated ${json.evaluated} alert rules, fired ${json.fired.length}` +
+      (failed ? `, failed: ${failed}` : '')
+    );
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] alert evaluation failed:`, error.message);
+  }
+};
+
+const run = async () => {
+  await collect();
+  await evaluateAlerts();
+};
+
+await run();
+setInterval(run, intervalMs);
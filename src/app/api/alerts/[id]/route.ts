@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { deleteAlertRule, getAlertRule, getAlertState, updateAlertRule } from '@/lib/alertStore';
+import { validateAlertInput } from '@/lib/alerts';
+
+type Context = { params: Promise<{ id: string }> };
+
+// The rule plus its evaluation state (last value, last delivery)
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const data = await getAlertRule(id);
+    if (!data) return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    return NextResponse.json({ data, state: await getAlertState(id) });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to read alert rule' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateAlertInput(body, true);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const data = await updateAlertRule(id, value);
+    if (!data) return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to update alert rule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteAlertRule(id);
+    if (!deleted) return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to delete alert rule' }, { status: 500 });
+  }
+}
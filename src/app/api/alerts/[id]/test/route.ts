@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { sendTestAlert } from '@/lib/alertEvaluator';
+import { getAlertRule } from '@/lib/alertStore';
+import { describeAlert } from '@/lib/alerts';
+import { errorResponse } from '@/lib/upstream';
+
+type Context = { params: Promise<{ id: string }> };
+
+// Deliver a sample alert now, ignoring the condition and cooldown
+export async function POST(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const rule = await getAlertRule(id);
+    if (!rule) return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+
+    const event = await sendTestAlert(rule);
+    return NextResponse.json({ delivered: true, message: describeAlert(event) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to send test alert');
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse, after } from 'next/server';
+import { evaluateAlerts } from '@/lib/alertEvaluator';
+
+// Triggered by the Vercel cron in vercel.json or by scripts/collect.mjs
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await evaluateAlerts(after);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to evaluate alerts' }, { status: 500 });
+  }
+}
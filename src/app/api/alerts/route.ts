@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createAlertRule, listAlertRules } from '@/lib/alertStore';
+import { validateAlertInput } from '@/lib/alerts';
+
+// GET /api/alerts?appids=730,570 (all rules when omitted)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appidsParam = searchParams.get('appids') ?? searchParams.get('appid');
+  const appids = appidsParam
+    ? appidsParam.split(',').filter(appid => /^\d+$/.test(appid)).map(Number)
+    : undefined;
+
+  try {
+    const data = await listAlertRules(appids);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to list alert rules' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateAlertInput(body);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const data = await createAlertRule(value);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to create alert rule' }, { status: 500 });
+  }
+}
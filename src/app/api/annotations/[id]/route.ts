@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { deleteAnnotation, getAnnotation, updateAnnotation } from '@/lib/annotationStore';
+import { validateAnnotationInput } from '@/lib/annotations';
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const data = await getAnnotation(id);
+    if (!data) return NextResponse.json({ error: 'Annotation not found' }, { status: 404 });
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to read annotation' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateAnnotationInput(body, true);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const existing = await getAnnotation(id);
+    if (!existing) return NextResponse.json({ error: 'Annotation not found' }, { status: 404 });
+
+    // Only one side of the range may be changing, so check the merged result
+    const merged = { ...existing, ...value };
+    if (merged.end !== undefined && merged.end < merged.start) {
+      return NextResponse.json({ error: 'end must not be before start' }, { status: 400 });
+    }
+
+    const data = await updateAnnotation(id, value);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to update annotation' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteAnnotation(id);
+    if (!deleted) return NextResponse.json({ error: 'Annotation not found' }, { status: 404 });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to delete annotation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createAnnotation, listAnnotations } from '@/lib/annotationStore';
+import { validateAnnotationInput } from '@/lib/annotations';
+
+// GET /api/annotations?appids=730,570 (all annotations when omitted)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appidsParam = searchParams.get('appids') ?? searchParams.get('appid');
+  const appids = appidsParam
+    ? appidsParam.split(',').filter(appid => /^\d+$/.test(appid)).map(Number)
+    : undefined;
+
+  try {
+    const data = await listAnnotations(appids);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to list annotations' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateAnnotationInput(body);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const data = await createAnnotation(value);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to create annotation' }, { status: 500 });
+  }
+}
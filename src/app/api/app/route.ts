@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { fetchAppDetails } from '@/lib/steamStore';
+import { errorResponse } from '@/lib/upstream';
+
+// Look up a game by appid, used to rebuild a comparison from a shared URL
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appid = searchParams.get('appid');
+
+  if (!appid || !/^\d+$/.test(appid)) return NextResponse.json({ error: 'AppID required', code: 'bad_input' }, { status: 400 });
+
+  try {
+    const game = await fetchAppDetails(appid);
+    return NextResponse.json(game, {
+      headers: { 'Cache-Control': 'public, max-age=86400' },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch app details');
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { collectSamples } from '@/lib/collector';
+
+// Triggered by the Vercel cron in vercel.json or by scripts/collect.mjs
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await collectSamples();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to collect samples' }, { status: 500 });
+  }
+}
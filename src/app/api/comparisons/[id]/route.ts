@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { deleteComparison, getComparison, updateComparison } from '@/lib/comparisonStore';
+import { validateComparisonInput } from '@/lib/comparisons';
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const data = await getComparison(id);
+    if (!data) return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to read comparison' }, { status: 500 });
+  }
+}
+
+// Rename with `{ name }`, or save a new view over it with `{ query }`
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateComparisonInput(body, true);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const data = await updateComparison(id, value);
+    if (!data) return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to update comparison' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteComparison(id);
+    if (!deleted) return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to delete comparison' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { listComparisons } from '@/lib/comparisonStore';
+import type { ComparisonExport } from '@/lib/comparisons';
+
+// Every saved comparison as a JSON file for /api/comparisons/import
+export async function GET() {
+  try {
+    const comparisons = await listComparisons();
+    const body: ComparisonExport = {
+      version: 1,
+      exportedAt: Date.now(),
+      comparisons: comparisons.map(({ name, query }) => ({ name, query })),
+    };
+
+    return NextResponse.json(body, {
+      headers: {
+        'Content-Disposition': `attachment; filename="comparisons-${new Date().toISOString().slice(0, 10)}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to export comparisons' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createComparison } from '@/lib/comparisonStore';
+import { validateComparisonExport } from '@/lib/comparisons';
+
+// Adds every comparison in an export file as a new one; nothing is
+// overwritten, so importing twice gives duplicates
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateComparisonExport(body);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const data = [];
+    for (const input of value) {
+      data.push(await createComparison(input));
+    }
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to import comparisons' }, { status: 500 });
+  }
+}
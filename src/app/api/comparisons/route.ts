@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createComparison, listComparisons } from '@/lib/comparisonStore';
+import { validateComparisonInput } from '@/lib/comparisons';
+
+// GET /api/comparisons lists every saved comparison, sorted by name
+export async function GET() {
+  try {
+    const data = await listComparisons();
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to list comparisons' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { value, error } = validateComparisonInput(body);
+
+  if (error !== undefined) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const data = await createComparison(value);
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to save comparison' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getDefaultRange, processChartData } from '@/lib/chartData';
+import { parseChartState } from '@/lib/chartState';
+import { exportFileName, toCsv, toJson } from '@/lib/export';
+import { getHistory } from '@/lib/historyCache';
+import { parseTimeParam } from '@/lib/historyQuery';
+import { fetchAppDetails } from '@/lib/steamStore';
+import { errorResponse } from '@/lib/upstream';
+
+// Same rows as the Export menu, for scripts:
+//   /api/export?appids=730,570&from=2024-01-01&to=2024-06-30&format=csv
+// `agg` and `interval` take the same values as in the page URL.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appids = (searchParams.get('appids') ?? '').split(',').filter(appid => /^\d+$/.test(appid));
+  const exportFormat = searchParams.get('format') ?? 'csv';
+
+  if (appids.length === 0) return NextResponse.json({ error: 'AppIDs required', code: 'bad_input' }, { status: 400 });
+  if (exportFormat !== 'csv' && exportFormat !== 'json') {
+    return NextResponse.json({ error: 'Format must be csv or json', code: 'bad_input' }, { status: 400 });
+  }
+
+  try {
+    const games = await Promise.all(appids.map(async appid => {
+      const [history, name] = await Promise.all([
+        getHistory(appid),
+        // A missing name shouldn't fail the export, fall back to the appid
+        fetchAppDetails(appid).then(details => details.name, () => appid),
+      ]);
+      return { id: Number(appid), name, data: history.data };
+    }));
+
+    const defaultRange = getDefaultRange(games)!;
+    const start = parseTimeParam(searchParams.get('from')) ?? defaultRange.start;
+    const end = parseTimeParam(searchParams.get('to')) ?? defaultRange.end;
+
+    const { options } = parseChartState(searchParams);
+    const rows = processChartData(games, start, end, options);
+    const meta = { start, end, games: games.map(({ id, name }) => ({ id, name })) };
+
+    const body = exportFormat === 'csv' ? toCsv(rows, meta) : toJson(rows, meta);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': exportFormat === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${exportFileName(meta, exportFormat)}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to export history');
+  }
+}
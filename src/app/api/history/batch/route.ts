@@ -0,0 +1,76 @@
+import { NextResponse, after } from 'next/server';
+import { analyzeQuality } from '@/lib/dataQuality';
+import { getHistory } from '@/lib/historyCache';
+import {
+  BATCH_CONCURRENCY, MAX_BATCH_APPIDS, runWithConcurrency, type HistoryBatchResult,
+} from '@/lib/historyBatch';
+import { parseHistoryQuery, sliceHistory } from '@/lib/historyQuery';
+import { fetchAppDetails } from '@/lib/steamStore';
+import type { Game } from '@/lib/types';
+import { UpstreamError } from '@/lib/upstream';
+
+// Histories for many games in one request, streamed as NDJSON in the order
+// they finish:
+//   /api/history/batch?appids=730,570,440
+// Each line is `{ appid, game, data, quality, stale, fetchedAt }` or, when that game
+// failed, `{ appid, error, code }`. `from`, `to` and `points` work as on
+// /api/history and apply to every game.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appids = [...new Set((searchParams.get('appids') ?? '').split(',').filter(appid => /^\d+$/.test(appid)))];
+
+  if (appids.length === 0) return NextResponse.json({ error: 'AppIDs required', code: 'bad_input' }, { status: 400 });
+  if (appids.length > MAX_BATCH_APPIDS) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_APPIDS} AppIDs per batch`, code: 'bad_input' }, { status: 400 });
+  }
+
+  const query = parseHistoryQuery(searchParams);
+  if (typeof query === 'string') return NextResponse.json({ error: query, code: 'bad_input' }, { status: 400 });
+
+  const load = async (appid: string): Promise<HistoryBatchResult> => {
+    try {
+      // Only the history is required; a game missing from the store gets a
+      // placeholder name
+      const [game, history] = await Promise.all([
+        fetchAppDetails(appid).catch((): Game => ({ id: Number(appid), name: `App ${appid}`, tiny_image: '' })),
+        getHistory(appid, after),
+      ]);
+      return {
+        appid: Number(appid),
+        game,
+        data: sliceHistory(history.data, query),
+        quality: analyzeQuality(history.data),
+        stale: history.stale,
+        fetchedAt: history.fetchedAt,
+      };
+    } catch (error) {
+      if (error instanceof UpstreamError) return { appid: Number(appid), error: error.message, code: error.code };
+      console.error(error);
+      return { appid: Number(appid), error: 'Failed to fetch history' };
+    }
+  };
+
+  const encoder = new TextEncoder();
+  // Stop starting new fetches once the client goes away
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await runWithConcurrency(appids, BATCH_CONCURRENCY, async appid => {
+        if (cancelled) return;
+        const result = await load(appid);
+        if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(result)}\n`));
+      });
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -1,35 +1,39 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
+import { analyzeQuality } from '@/lib/dataQuality';
+import { getHistory, historyHeaders, isNotModified } from '@/lib/historyCache';
+import { isFullHistory, parseHistoryQuery, queryKey, sliceHistory } from '@/lib/historyQuery';
+import { errorResponse } from '@/lib/upstream';
 
+// The full lifetime series, or with `from`, `to` and `points` a range of it
+// downsampled with LTTB; downsampled points carry `min` and `max` envelopes.
+// `quality` always describes the full history.
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const appid = searchParams.get('appid');
 
-  if (!appid) return NextResponse.json({ error: 'AppID required' }, { status: 400 });
+  if (!appid) return NextResponse.json({ error: 'AppID required', code: 'bad_input' }, { status: 400 });
 
-  try {
-    // Fetch the public page from SteamCharts
-    const response = await fetch(`https://steamcharts.com/app/${appid}/chart-data.json`, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
-    });
-
-    if (!response.ok) throw new Error('Failed to fetch from source');
+  const query = parseHistoryQuery(searchParams);
+  if (typeof query === 'string') return NextResponse.json({ error: query, code: 'bad_input' }, { status: 400 });
+  const full = isFullHistory(query);
 
-    const html = await response.text();
+  try {
+    const history = await getHistory(appid, after);
 
-    // The response should be JSON
-    const rawData = JSON.parse(html);
-    // Format data: [timestamp (ms), count]
-    // SteamCharts timestamps are usually in milliseconds already, or seconds * 1000
-    const formattedData = rawData.map((point: number[]) => ({
-      date: point[0], 
-      count: point[1]
-    }));
+    // Each query of a snapshot gets its own validator
+    const headers = historyHeaders(history, full ? undefined : queryKey(query));
+    if (isNotModified(request, history, headers.ETag)) return new NextResponse(null, { status: 304, headers });
 
-    return NextResponse.json({ data: formattedData });
+    return NextResponse.json(
+      {
+        data: full ? history.data : sliceHistory(history.data, query),
+        quality: analyzeQuality(history.data),
+        stale: history.stale,
+        fetchedAt: history.fetchedAt,
+      },
+      { headers }
+    );
   } catch (error) {
-    console.error(error);
-    return NextResponse.json({ error: 'Failed to fetch history' }, { status: 500 });
+    return errorResponse(error, 'Failed to fetch history');
   }
-}
\ No newline at end of file
+}
@@ -1,17 +1,19 @@
 import { NextResponse } from 'next/server';
+import { fetchCurrentPlayers } from '@/lib/steamApi';
+import { errorResponse } from '@/lib/upstream';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const appid = searchParams.get('appid');
 
-  if (!appid) return NextResponse.json({ result: 0 });
+  if (!appid) return NextResponse.json({ error: 'AppID required', code: 'bad_input' }, { status: 400 });
 
   try {
     // Uses Steam Web API for current players
-    const res = await fetch(`https://api.steampowered.com/ISteamUserStats/GetNumberOfCurrentPlayers/v1/?appid=${appid}`);
-    const data = await res.json();
-    return NextResponse.json(data.response || { result: 0 });
+    const playerCount = await fetchCurrentPlayers(appid);
+    return NextResponse.json({ player_count: playerCount, result: 1 });
   } catch (error) {
-    return NextResponse.json({ result: 0 }, { status: 500 });
+    // Never answer with a count on failure, it would read as a real zero
+    return errorResponse(error, 'Failed to fetch player count');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+import { ImageResponse } from 'next/og';
+import { NextResponse } from 'next/server';
+import { HISTORY_TTL_MS } from '@/lib/historyCache';
+import { loadPreview, parsePreviewStyle } from '@/lib/preview';
+import {
+  layoutPreviewImage, renderPreviewSvg, DEFAULT_IMAGE_SIZE, MAX_IMAGE_SIZE, MIN_IMAGE_SIZE, type PreviewImage,
+} from '@/lib/previewImage';
+import { errorResponse, UpstreamError } from '@/lib/upstream';
+
+const parseSize = (value: string | null, fallback: number, name: string) => {
+  if (value === null) return fallback;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < MIN_IMAGE_SIZE || size > MAX_IMAGE_SIZE) {
+    throw new UpstreamError('bad_input', `"${name}" must be a whole number from ${MIN_IMAGE_SIZE} to ${MAX_IMAGE_SIZE}`);
+  }
+  return size;
+};
+
+// next/og lays out text with its own font, so labels are positioned boxes
+// over an SVG of the shapes
+const PreviewPng = ({ image }: { image: PreviewImage }) => (
+  <div style={{ display: 'flex', position: 'relative', width: image.width, height: image.height, background: image.background }}>
+    <svg
+      width={image.width}
+      height={image.height}
+      viewBox={`0 0 ${image.width} ${image.height}`}
+      style={{ position: 'absolute', left: 0, top: 0 }}
+    >
+      {image.shapes.map((shape, index) => (
+        <path
+          key={index}
+          d={shape.d}
+          stroke={shape.stroke}
+          strokeWidth={shape.stroke ? shape.strokeWidth ?? 2 : undefined}
+          fill={shape.fill ?? 'none'}
+          fillOpacity={shape.fillOpacity}
+        />
+      ))}
+    </svg>
+    {image.labels.map((label, index) => (
+      <div
+        key={index}
+        style={{
+          position: 'absolute',
+          display: 'flex',
+          alignItems: 'center',
+          top: label.y - label.size * 0.7,
+          height: label.size * 1.4,
+          fontSize: label.size,
+          fontWeight: label.bold ? 700 : 400,
+          color: label.color,
+          whiteSpace: 'nowrap',
+          ...(label.anchor === 'start'
+            ? { left: label.x }
+            : label.anchor === 'end'
+              ? { right: image.width - label.x }
+              : { left: label.x - 100, width: 200, justifyContent: 'center' }),
+        }}
+      >
+        {label.text}
+      </div>
+    ))}
+  </div>
+);
+
+// A static picture of a comparison, used as the link preview of the page and
+// the embed widget:
+//   /api/preview?games=730,570&from=2024-01-01&to=2024-06-30&format=svg
+// Takes the page's query string plus the widget's `theme`, `bg` and
+// `legend`, `width`/`height` in pixels, and `format` (`png` or `svg`).
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const imageFormat = searchParams.get('format') ?? 'png';
+
+  if (imageFormat !== 'png' && imageFormat !== 'svg') {
+    return NextResponse.json({ error: 'Format must be png or svg', code: 'bad_input' }, { status: 400 });
+  }
+
+  let image: PreviewImage;
+  try {
+    const size = {
+      width: parseSize(searchParams.get('width'), DEFAULT_IMAGE_SIZE.width, 'width'),
+      height: parseSize(searchParams.get('height'), DEFAULT_IMAGE_SIZE.height, 'height'),
+    };
+    image = layoutPreviewImage(await loadPreview(searchParams), parsePreviewStyle(searchParams), size);
+  } catch (error) {
+    return errorResponse(error, 'Failed to render preview');
+  }
+
+  // As fresh as the histories behind it
+  const headers = { 'Cache-Control': `public, max-age=${Math.round(HISTORY_TTL_MS / 1000)}` };
+  if (imageFormat === 'svg') {
+    return new NextResponse(renderPreviewSvg(image), { headers: { ...headers, 'Content-Type': 'image/svg+xml' } });
+  }
+  return new ImageResponse(<PreviewPng image={image} />, { width: image.width, height: image.height, headers });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getSamples } from '@/lib/collector';
+
+// Our own recorded series, in the same shape as /api/history
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appid = searchParams.get('appid');
+
+  if (!appid) return NextResponse.json({ error: 'AppID required' }, { status: 400 });
+
+  try {
+    const data = await getSamples(appid);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to read samples' }, { status: 500 });
+  }
+}
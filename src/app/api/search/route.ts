@@ -1,17 +1,28 @@
 import { NextResponse } from 'next/server';
+import { parseStoreLocale } from '@/lib/search';
+import { DEFAULT_STORE_LOCALE, findGames, SUGGESTION_DETAILED_RESULTS } from '@/lib/steamStore';
+import { errorResponse } from '@/lib/upstream';
 
+// Store search for the page's suggestions, with release date, genres,
+// developer and price for the top hits:
+//   /api/search?term=portal&cc=DE&l=german
+// A numeric appid or a store link as `term` returns that app.
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const term = searchParams.get('term');
+  const term = searchParams.get('term')?.trim();
 
   if (!term) return NextResponse.json({ items: [] });
 
+  const locale = parseStoreLocale(searchParams, DEFAULT_STORE_LOCALE);
+  if (typeof locale === 'string') return NextResponse.json({ error: locale, code: 'bad_input' }, { status: 400 });
+
   try {
-    // Uses Steam Store Search API
-    const res = await fetch(`https://store.steampowered.com/api/storesearch/?term=${term}&l=english&cc=US`);
-    const data = await res.json();
-    return NextResponse.json(data);
+    // Typing past a term aborts its request, which stops its Steam requests too
+    const items = await findGames(term, locale, { detailed: SUGGESTION_DETAILED_RESULTS, signal: request.signal });
+    return NextResponse.json({ items });
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to fetch' }, { status: 500 });
+    // Nobody is left to read the answer
+    if (request.signal.aborted) return new NextResponse(null, { status: 499 });
+    return errorResponse(error, 'Failed to search');
   }
-}
\ No newline at end of file
+}
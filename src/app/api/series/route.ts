@@ -0,0 +1,49 @@
+import { NextResponse, after } from 'next/server';
+import type { AggregatedPoint } from '@/lib/chartData';
+import { parseChartState } from '@/lib/chartState';
+import { GROUP_REDUCERS, combineSeries, type GroupReducer } from '@/lib/groups';
+import { getHistory } from '@/lib/historyCache';
+import { MAX_BATCH_APPIDS } from '@/lib/historyBatch';
+import { aggregateHistory, parseHistoryQuery } from '@/lib/historyQuery';
+import { errorResponse } from '@/lib/upstream';
+
+// The chart's buckets for one game, or for a group of games combined like
+// the chart does, over a range of the full-resolution history:
+//   /api/series?appids=730&from=1700000000000&to=1710000000000&agg=median&interval=daily
+//   /api/series?appids=730,570&reducer=sum&from=...&to=...
+// `agg` and `interval` take the same values as in the page URL, so the rows
+// match /api/export. Raw ranges are downsampled to `points` instead.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appids = [...new Set((searchParams.get('appids') ?? '').split(',').filter(appid => /^\d+$/.test(appid)))];
+  const reducer = searchParams.get('reducer') ?? 'sum';
+
+  if (appids.length === 0) return NextResponse.json({ error: 'AppIDs required', code: 'bad_input' }, { status: 400 });
+  if (appids.length > MAX_BATCH_APPIDS) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_APPIDS} AppIDs`, code: 'bad_input' }, { status: 400 });
+  }
+  if (!GROUP_REDUCERS.includes(reducer as GroupReducer)) {
+    return NextResponse.json({ error: `Reducer must be one of ${GROUP_REDUCERS.join(', ')}`, code: 'bad_input' }, { status: 400 });
+  }
+
+  const query = parseHistoryQuery(searchParams);
+  if (typeof query === 'string') return NextResponse.json({ error: query, code: 'bad_input' }, { status: 400 });
+  // Automatic intervals depend on the span, so it has to be known
+  if (query.from === null || query.to === null) {
+    return NextResponse.json({ error: '"from" and "to" are required', code: 'bad_input' }, { status: 400 });
+  }
+
+  try {
+    const histories = await Promise.all(appids.map(appid => getHistory(appid, after)));
+    const data = histories.length === 1
+      ? histories[0].data
+      : combineSeries(histories.map(history => history.data), reducer as GroupReducer);
+
+    const { options } = parseChartState(searchParams);
+    return NextResponse.json<{ data: AggregatedPoint[] }>({
+      data: aggregateHistory(data, query.from, query.to, options, query.points),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to aggregate history');
+  }
+}
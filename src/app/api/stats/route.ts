@@ -0,0 +1,52 @@
+import { NextResponse, after } from 'next/server';
+import { GROUP_REDUCERS, combineSeries, type GroupReducer } from '@/lib/groups';
+import { getHistory } from '@/lib/historyCache';
+import { MAX_BATCH_APPIDS } from '@/lib/historyBatch';
+import { parseHistoryQuery } from '@/lib/historyQuery';
+import { computeHeatmap } from '@/lib/seasonality';
+import { computeGameStats, type GameSummary } from '@/lib/stats';
+import { isValidTimeZone } from '@/lib/timezone';
+import { errorResponse } from '@/lib/upstream';
+
+// Statistics and the weekday × hour heatmap of one game, or of a group of
+// games combined like the chart does, over a range of the full-resolution
+// history:
+//   /api/stats?appids=730&from=1700000000000&to=1710000000000&tz=Europe/Berlin
+//   /api/stats?appids=730,570&reducer=sum&from=...&to=...
+// The page's own series are downsampled, so it can't work these out itself.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const appids = [...new Set((searchParams.get('appids') ?? '').split(',').filter(appid => /^\d+$/.test(appid)))];
+  const reducer = searchParams.get('reducer') ?? 'sum';
+  const timeZone = searchParams.get('tz') ?? 'UTC';
+
+  if (appids.length === 0) return NextResponse.json({ error: 'AppIDs required', code: 'bad_input' }, { status: 400 });
+  if (appids.length > MAX_BATCH_APPIDS) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_APPIDS} AppIDs`, code: 'bad_input' }, { status: 400 });
+  }
+  if (!GROUP_REDUCERS.includes(reducer as GroupReducer)) {
+    return NextResponse.json({ error: `Reducer must be one of ${GROUP_REDUCERS.join(', ')}`, code: 'bad_input' }, { status: 400 });
+  }
+  if (!isValidTimeZone(timeZone)) {
+    return NextResponse.json({ error: '"tz" is not a known time zone', code: 'bad_input' }, { status: 400 });
+  }
+
+  const query = parseHistoryQuery(searchParams);
+  if (typeof query === 'string') return NextResponse.json({ error: query, code: 'bad_input' }, { status: 400 });
+  const from = query.from ?? -Infinity;
+  const to = query.to ?? Infinity;
+
+  try {
+    const histories = await Promise.all(appids.map(appid => getHistory(appid, after)));
+    const data = histories.length === 1
+      ? histories[0].data
+      : combineSeries(histories.map(history => history.data), reducer as GroupReducer);
+
+    return NextResponse.json<GameSummary>({
+      stats: computeGameStats(data, from, to),
+      heatmap: computeHeatmap(data, from, to, timeZone),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to compute statistics');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse, after } from 'next/server';
+import { analyzeQuality } from '@/lib/dataQuality';
+import { getHistory, historyHeaders, isNotModified } from '@/lib/historyCache';
+import { parseHistoryQuery, queryKey, sliceHistory } from '@/lib/historyQuery';
+import { handlePublicRequest, paginate, parsePage, preflight } from '@/lib/publicApi';
+import { assertAppid, UpstreamError } from '@/lib/upstream';
+
+type RouteContext = { params: Promise<{ appid: string }> };
+
+// Player-count history, oldest first, one page at a time:
+//   /api/v1/games/730/history?from=2024-01-01&to=2024-06-30&points=1000&limit=500
+// `from`, `to` and `points` work as on /api/history; `meta.next` links to the
+// following page. `meta.quality` describes the full history.
+export async function GET(request: Request, { params }: RouteContext) {
+  return handlePublicRequest(request, async () => {
+    const { appid } = await params;
+    assertAppid(appid);
+
+    const url = new URL(request.url);
+    const query = parseHistoryQuery(url.searchParams);
+    if (typeof query === 'string') throw new UpstreamError('bad_input', query);
+    const page = parsePage(url.searchParams);
+
+    const history = await getHistory(appid, after);
+
+    // Each page of each query gets its own validator
+    const headers = historyHeaders(history, `${queryKey(query)}-${page.limit}-${url.searchParams.get('cursor') ?? ''}`);
+    if (isNotModified(request, history, headers.ETag)) return new NextResponse(null, { status: 304, headers });
+
+    const { data, meta } = paginate(sliceHistory(history.data, query), page, url);
+    return {
+      data,
+      meta: {
+        ...meta,
+        stale: history.stale,
+        fetchedAt: history.fetchedAt,
+        quality: analyzeQuality(history.data),
+      },
+      headers,
+    };
+  });
+}
+
+export function OPTIONS(request: Request) {
+  return preflight(request);
+}
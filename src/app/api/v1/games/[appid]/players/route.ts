@@ -0,0 +1,23 @@
+import { handlePublicRequest, preflight } from '@/lib/publicApi';
+import { fetchCurrentPlayers } from '@/lib/steamApi';
+import { assertAppid } from '@/lib/upstream';
+
+type RouteContext = { params: Promise<{ appid: string }> };
+
+// Players online right now, straight from the Steam Web API
+export async function GET(request: Request, { params }: RouteContext) {
+  return handlePublicRequest(request, async () => {
+    const { appid } = await params;
+    assertAppid(appid);
+
+    const count = await fetchCurrentPlayers(appid);
+    return {
+      data: { appid: Number(appid), count, at: Date.now() },
+      headers: { 'Cache-Control': 'no-store' },
+    };
+  });
+}
+
+export function OPTIONS(request: Request) {
+  return preflight(request);
+}
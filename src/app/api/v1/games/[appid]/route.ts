@@ -0,0 +1,25 @@
+import { handlePublicRequest, preflight } from '@/lib/publicApi';
+import { parseStoreLocale } from '@/lib/search';
+import { DEFAULT_STORE_LOCALE, fetchStoreDetails } from '@/lib/steamStore';
+import { UpstreamError } from '@/lib/upstream';
+
+type RouteContext = { params: Promise<{ appid: string }> };
+
+// Store details of one game: name, image, release date, genres, developers
+// and price in the region picked with `cc` and `l`
+export async function GET(request: Request, { params }: RouteContext) {
+  return handlePublicRequest(request, async () => {
+    const { appid } = await params;
+    const locale = parseStoreLocale(new URL(request.url).searchParams, DEFAULT_STORE_LOCALE);
+    if (typeof locale === 'string') throw new UpstreamError('bad_input', locale);
+
+    return {
+      data: await fetchStoreDetails(appid, locale),
+      headers: { 'Cache-Control': 'public, max-age=86400' },
+    };
+  });
+}
+
+export function OPTIONS(request: Request) {
+  return preflight(request);
+}
@@ -0,0 +1,14 @@
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { handlePublicRequest, preflight } from '@/lib/publicApi';
+
+// The API's own description, open to everyone so tools can discover it
+export async function GET(request: Request) {
+  return handlePublicRequest(request, async () => {
+    const document = buildOpenApiDocument(new URL('/api/v1', request.url).toString());
+    return Response.json(document, { headers: { 'Cache-Control': 'public, max-age=3600' } });
+  }, { auth: false });
+}
+
+export function OPTIONS(request: Request) {
+  return preflight(request);
+}
@@ -0,0 +1,22 @@
+import { handlePublicRequest, preflight } from '@/lib/publicApi';
+import { parseStoreLocale } from '@/lib/search';
+import { DEFAULT_STORE_LOCALE, findGames } from '@/lib/steamStore';
+import { UpstreamError } from '@/lib/upstream';
+
+// Store search, or the app itself when `term` is an appid or store link
+export async function GET(request: Request) {
+  return handlePublicRequest(request, async () => {
+    const { searchParams } = new URL(request.url);
+    const term = searchParams.get('term')?.trim();
+    if (!term) throw new UpstreamError('bad_input', '"term" is required');
+
+    const locale = parseStoreLocale(searchParams, DEFAULT_STORE_LOCALE);
+    if (typeof locale === 'string') throw new UpstreamError('bad_input', locale);
+
+    return { data: await findGames(term, locale, { signal: request.signal }) };
+  });
+}
+
+export function OPTIONS(request: Request) {
+  return preflight(request);
+}
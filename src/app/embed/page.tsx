@@ -0,0 +1,38 @@
+import type { Metadata } from 'next';
+import EmbedChart from '@/components/EmbedChart';
+import { describeApiError } from '@/lib/apiErrors';
+import { fullChartLink, loadPreview, parsePreviewStyle, previewMetadata, toSearchParams } from '@/lib/preview';
+import { UpstreamError } from '@/lib/upstream';
+
+type EmbedPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export const generateMetadata = async ({ searchParams }: EmbedPageProps): Promise<Metadata> =>
+  previewMetadata(toSearchParams(await searchParams));
+
+// A bare chart for iframes: the page's query string plus `theme`, `bg` and
+// `legend`, drawn on the server's data with no search or controls
+export default async function EmbedPage({ searchParams }: EmbedPageProps) {
+  const params = toSearchParams(await searchParams);
+  const style = parsePreviewStyle(params);
+  const preview = await loadPreview(params).catch((error: unknown) => {
+    if (!(error instanceof UpstreamError)) console.error(error);
+    return error instanceof UpstreamError && error.code === 'bad_input'
+      ? error.message
+      : describeApiError(error instanceof UpstreamError ? error.code : undefined, 'this chart');
+  });
+
+  if (typeof preview === 'string') {
+    return (
+      <div
+        className="flex h-screen items-center justify-center p-4 text-sm"
+        style={{ background: style.colors.background, color: style.colors.muted }}
+      >
+        {preview}
+      </div>
+    );
+  }
+
+  return <EmbedChart preview={preview} style={style} href={fullChartLink(params)} />;
+}
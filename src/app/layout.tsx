@@ -15,6 +15,9 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Create Next App",
   description: "Generated by create next app",
+  // Base of absolute URLs in metadata, like the preview images of shared
+  // charts. Without SITE_URL, Next uses the Vercel deployment URL or localhost.
+  metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
 };
 
 export default function RootLayout({
@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  ANNOTATION_CATEGORIES, ANNOTATION_CATEGORY_COLORS, ANNOTATION_CATEGORY_LABELS,
+  type Annotation, type AnnotationCategory, type AnnotationInput,
+} from '@/lib/annotations';
+import { formatInTimeZone, parseDateInput } from '@/lib/timezone';
+import type { SelectedGame } from '@/lib/types';
+
+type AnnotationsPanelProps = {
+  games: SelectedGame[];
+  annotations: Annotation[];
+  hiddenCategories: Set<AnnotationCategory>;
+  onToggleCategory: (category: AnnotationCategory) => void;
+  onCreate: (input: AnnotationInput) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  timeZone: string;
+};
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export default function AnnotationsPanel({
+  games, annotations, hiddenCategories, onToggleCategory, onCreate, onDelete, timeZone,
+}: AnnotationsPanelProps) {
+  const [appid, setAppid] = useState<number | ''>('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [label, setLabel] = useState('');
+  const [category, setCategory] = useState<AnnotationCategory>('update');
+  const [saving, setSaving] = useState(false);
+
+  const gameName = (id: number) => games.find(game => game.id === id)?.name ?? `App ${id}`;
+  const selectedAppid = appid === '' ? games[0]?.id : appid;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Date inputs hold calendar days in the chart's timezone
+    const startTime = parseDateInput(start, timeZone);
+    if (selectedAppid === undefined || startTime === null || !label.trim()) return;
+
+    setSaving(true);
+    try {
+      await onCreate({ appid: selectedAppid, start: startTime, end: parseDateInput(end, timeZone) ?? undefined, label, category });
+      setLabel('');
+      setStart('');
+      setEnd('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-sm font-semibold text-white mr-2">Annotations</h2>
+        {ANNOTATION_CATEGORIES.map(option => (
+          <button
+            key={option}
+            onClick={() => onToggleCategory(option)}
+            className={`flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+              hiddenCategories.has(option) ? 'border-slate-800 text-slate-600' : 'border-slate-700 text-slate-200'
+            }`}
+          >
+            <span
+              className="inline-block w-2 h-2 rounded-full"
+              style={{ backgroundColor: hiddenCategories.has(option) ? '#334155' : ANNOTATION_CATEGORY_COLORS[option] }}
+            />
+            {ANNOTATION_CATEGORY_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+        <select value={selectedAppid ?? ''} onChange={(e) => setAppid(Number(e.target.value))} className={inputClass}>
+          {games.map(game => <option key={game.id} value={game.id}>{game.name}</option>)}
+        </select>
+        <input type="date" value={start} onChange={(e) => setStart(e.target.value)} required className={inputClass} title="Date" />
+        <input type="date" value={end} onChange={(e) => setEnd(e.target.value)} min={start} className={inputClass} title="End date (optional)" />
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Season 3 launch"
+          maxLength={120}
+          required
+          className={`${inputClass} flex-1 min-w-40`}
+        />
+        <select value={category} onChange={(e) => setCategory(e.target.value as AnnotationCategory)} className={inputClass}>
+          {ANNOTATION_CATEGORIES.map(option => (
+            <option key={option} value={option}>{ANNOTATION_CATEGORY_LABELS[option]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded px-3 py-1 text-sm text-white transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </form>
+
+      {annotations.length > 0 && (
+        <ul className="divide-y divide-slate-800">
+          {annotations.map(annotation => (
+            <li
+              key={annotation.id}
+              className={`flex items-center gap-3 py-2 text-sm ${hiddenCategories.has(annotation.category) ? 'opacity-40' : ''}`}
+            >
+              <span
+                className="inline-block w-2 h-2 rounded-full shrink-0"
+                style={{ backgroundColor: ANNOTATION_CATEGORY_COLORS[annotation.category] }}
+              />
+              <span className="text-slate-400 w-48 shrink-0">
+                {formatInTimeZone(annotation.start, 'PP', timeZone)}
+                {annotation.end !== undefined && ` – ${formatInTimeZone(annotation.end, 'PP', timeZone)}`}
+              </span>
+              <span className="text-white flex-1 truncate">{annotation.label}</span>
+              <span className="text-slate-500 truncate">{gameName(annotation.appid)}</span>
+              <button
+                onClick={() => onDelete(annotation.id)}
+                className="text-slate-500 hover:text-white"
+                title="Delete annotation"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
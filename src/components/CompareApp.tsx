@@ -0,0 +1,1422 @@
+'use client';
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { 
+  ComposedChart, Area, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea,
+  ReferenceDot, ReferenceLine,
+  type AxisDomainItem, type MouseHandlerDataParam,
+} from 'recharts';
+import { X, Activity, AlertCircle, Bookmark, Loader2, RotateCcw } from 'lucide-react';
+import AnnotationsPanel from '@/components/AnnotationsPanel';
+import ComparisonsSidebar from '@/components/ComparisonsSidebar';
+import CorrelationPanel from '@/components/CorrelationPanel';
+import CoverageBadge from '@/components/CoverageBadge';
+import EventsList, { type GameEvent } from '@/components/EventsList';
+import ExportMenu from '@/components/ExportMenu';
+import ForecastPanel, { type GameForecast } from '@/components/ForecastPanel';
+import GameSearch from '@/components/GameSearch';
+import GroupsPanel from '@/components/GroupsPanel';
+import LiveBadge, { type LiveReading } from '@/components/LiveBadge';
+import SeasonalityHeatmap from '@/components/SeasonalityHeatmap';
+import StatsPanel from '@/components/StatsPanel';
+import {
+  calendarKey, getLaunchDate, processAlignedData, ALIGN_LABELS, ALIGN_MODES, UNIT_MS, type AlignMode,
+} from '@/lib/alignment';
+import { ApiRequestError, describeApiError, fetchApi, type ApiErrorCode } from '@/lib/apiErrors';
+import {
+  ANNOTATION_CATEGORY_COLORS, type Annotation, type AnnotationCategory, type AnnotationInput,
+} from '@/lib/annotations';
+import {
+  detectEvents, SENSITIVITIES, SENSITIVITY_LABELS, SENSITIVITY_OPTIONS, type Sensitivity,
+} from '@/lib/anomalies';
+import {
+  aggregateData, aggregateSeries, bandKeys, describeInterval, getDateFormat, getDefaultRange, mergeSeries, resolveInterval,
+  INTERVAL_CHOICES, INTERVAL_LABELS, REDUCER_LABELS, REDUCERS,
+  type AggregatedPoint, type ChartRow, type IntervalChoice, type Reducer,
+} from '@/lib/chartData';
+import {
+  parseChartState, serializeChartState, SERIES_COLORS, type ChartGroupRef, type ChartOptions, type ChartState,
+} from '@/lib/chartState';
+import {
+  isStacked, BAR_INTERVAL, CHART_LAYOUT_LABELS, CHART_LAYOUTS, CHART_TYPE_LABELS, CHART_TYPES,
+  type ChartLayout, type ChartType,
+} from '@/lib/chartTypes';
+import type { Comparison } from '@/lib/comparisons';
+import { splitAtGaps, type DataQuality, type TimeRange } from '@/lib/dataQuality';
+import { spliceRange } from '@/lib/downsample';
+import {
+  backtest, forecastKeys, forecastSeries, mergeForecasts, FORECAST_HORIZONS, FORECAST_LABELS, FORECAST_SETTINGS,
+  type ForecastHorizon, type ForecastSetting,
+} from '@/lib/forecast';
+import { combineSeries, groupSeriesId, isGroupSeries } from '@/lib/groups';
+import { streamHistoryBatch } from '@/lib/historyBatch';
+import {
+  applyScale, formatAxisValue, formatTooltipValue, rawKey, SCALE_LABELS, SCALE_MODES, type ScaleMode,
+} from '@/lib/scaling';
+import type { GameSummary } from '@/lib/stats';
+import {
+  formatInTimeZone, getTimeZoneOptions, parseDateInput, resolveTimeZone,
+} from '@/lib/timezone';
+import type { Game, HistoricalPoint, SelectedGame } from '@/lib/types';
+
+const errorCode = (error: unknown) => error instanceof ApiRequestError ? error.code : undefined;
+const errorMessage = (error: unknown, fallback: string) => error instanceof ApiRequestError ? error.message : fallback;
+
+// Lifetime histories are loaded downsampled to this many points, and each
+// visible range is refetched at this resolution
+const OVERVIEW_POINTS = 2000;
+const DETAIL_POINTS = 1500;
+const FULL_RANGE = { from: -Infinity, to: Infinity };
+
+// Short histories come back whole, without min/max envelopes
+const isDownsampled = (data: AggregatedPoint[]) => data.some(point => point.min !== undefined);
+
+// How often live mode asks Steam for current player counts
+const LIVE_POLL_MS = 60 * 1000;
+
+// Fetch one response per charted series once its URL has settled. Responses
+// are kept per series, so a new URL replaces the old one's; each is
+// undefined while on its way and null when it failed.
+const useSeriesFetch = <T,>(urls: Map<number, string>): Record<number, T | null | undefined> => {
+  const [responses, setResponses] = useState<Record<number, { url: string; value: T | null }>>({});
+  const missing = [...urls]
+    .filter(([id, url]) => responses[id]?.url !== url)
+    .map(([id, url]) => `${id} ${url}`)
+    .join('\n');
+
+  useEffect(() => {
+    if (!missing) return;
+
+    const requests = missing.split('\n').map(line => line.split(' '));
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      Promise.allSettled(requests.map(([, url]) => fetchApi<T>(url, { signal: controller.signal }))).then(results => {
+        if (controller.signal.aborted) return;
+        // Failures are kept as null so they aren't retried on every render
+        setResponses(prev => ({
+          ...prev,
+          ...Object.fromEntries(requests.map(([id, url], index) => {
+            const result = results[index];
+            return [id, { url, value: result.status === 'fulfilled' ? result.value : null }];
+          })),
+        }));
+      });
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [missing]);
+
+  return Object.fromEntries([...urls].map(([id, url]) => [id, responses[id]?.url === url ? responses[id].value : undefined]));
+};
+
+function SteamCompareApp() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const searchString = searchParams.toString();
+  const chartState = parseChartState(searchParams);
+
+  const [selectedGames, setSelectedGames] = useState<SelectedGame[]>([]);
+  // Loaded members of the groups in the URL, whether or not they are also
+  // selected on their own
+  const [groupMembers, setGroupMembers] = useState<Omit<SelectedGame, 'color'>[]>([]);
+  // Games whose history is still on its way, shown as placeholder chips
+  const [pending, setPending] = useState<{ id: number; name: string }[]>([]);
+  const [error, setError] = useState('');
+
+  // Games whose history has been loaded, kept across removals so back/forward
+  // doesn't refetch them
+  const loadedGames = useRef(new Map<number, Omit<SelectedGame, 'color'>>());
+  // Ranges already refetched at full resolution, per game
+  const detailedRanges = useRef(new Map<number, { from: number; to: number }[]>());
+  const chartContainer = useRef<HTMLDivElement>(null);
+  
+  // State for drag-to-zoom
+  const [refAreaLeft, setRefAreaLeft] = useState<string | number>('');
+  const [refAreaRight, setRefAreaRight] = useState<string | number>('');
+  const [isSelecting, setIsSelecting] = useState(false);
+
+  // Detected event hovered in the events list
+  const [highlightedEvent, setHighlightedEvent] = useState<GameEvent | null>(null);
+
+  // The URL is the source of truth; every change becomes a history entry
+  const navigate = (next: ChartState) => {
+    const qs = serializeChartState(next);
+    router.push(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+  };
+
+  // Get next available color
+  const getNextAvailableColor = (): string => {
+    const usedColors = new Set([...chartState.games, ...chartState.groups].map(ref => ref.color));
+    for (const color of SERIES_COLORS) {
+      if (!usedColors.has(color)) {
+        return color;
+      }
+    }
+    // If all colors are used, cycle through them
+    return SERIES_COLORS[(chartState.games.length + chartState.groups.length) % SERIES_COLORS.length];
+  };
+
+  // Fetch the history of a game picked from search
+  const loadGame = async (game: Game) => {
+    const json = await fetchApi<{ data: HistoricalPoint[]; quality: DataQuality }>(
+      `/api/history?appid=${game.id}&points=${OVERVIEW_POINTS}`
+    );
+
+    const loaded = { ...game, data: json.data, quality: json.quality }; // Real historical data
+    loadedGames.current.set(game.id, loaded);
+    if (!isDownsampled(json.data)) detailedRanges.current.set(game.id, [FULL_RANGE]);
+    return loaded;
+  };
+
+  // Rebuild the selected games and group members whenever the URL changes:
+  // reuse loaded histories, stream the missing ones in batches, adding each
+  // as it arrives, and drop games that failed to load
+  useEffect(() => {
+    const { games, groups } = parseChartState(new URLSearchParams(searchString));
+    const memberIds = [...new Set(groups.flatMap(group => group.appids))];
+    const missing = [...new Set([...games.map(game => game.id), ...memberIds])]
+      .filter(id => !loadedGames.current.has(id));
+    const isMissing = (id: number) => missing.includes(id);
+
+    const applyState = () => {
+      setSelectedGames(games.flatMap(ref => {
+        const loaded = loadedGames.current.get(ref.id);
+        return loaded
+          ? [{ ...loaded, color: ref.color || SERIES_COLORS[games.indexOf(ref) % SERIES_COLORS.length], release: ref.release }]
+          : [];
+      }));
+      setGroupMembers(memberIds.flatMap(id => {
+        const loaded = loadedGames.current.get(id);
+        return loaded ? [loaded] : [];
+      }));
+    };
+
+    if (missing.length === 0) {
+      applyState();
+      return;
+    }
+
+    const controller = new AbortController();
+    const codes = new Map<number, ApiErrorCode | undefined>();
+    let batchCode: ApiErrorCode | undefined;
+
+    applyState();
+    setPending(prev => [
+      ...prev.filter(game => !isMissing(game.id)),
+      ...missing.map(id => ({ id, name: `App ${id}` })),
+    ]);
+
+    streamHistoryBatch(missing, result => {
+      if ('error' in result) {
+        codes.set(result.appid, result.code);
+      } else {
+        loadedGames.current.set(result.appid, { ...result.game, data: result.data, quality: result.quality });
+        if (!isDownsampled(result.data)) detailedRanges.current.set(result.appid, [FULL_RANGE]);
+      }
+      setPending(prev => prev.filter(game => game.id !== result.appid));
+      applyState();
+    }, { points: OVERVIEW_POINTS, signal: controller.signal }).catch(error => {
+      // A batch as a whole failed, so did every game in it not yet received
+      batchCode = errorCode(error);
+    }).then(() => {
+      if (controller.signal.aborted) return;
+      setPending(prev => prev.filter(game => !isMissing(game.id)));
+
+      const unloaded = missing.filter(id => !loadedGames.current.has(id));
+      if (unloaded.length > 0) {
+        setError(unloaded.length === 1
+          ? describeApiError(codes.get(unloaded[0]) ?? batchCode, `App ${unloaded[0]}`)
+          : `Could not load data for ${unloaded.length} games.`);
+      }
+
+      // Only games the server reported as failed are dropped from the URL,
+      // without adding a history entry; a rejected batch keeps the link intact
+      const failed = unloaded.filter(id => codes.has(id));
+      if (failed.length > 0) {
+        const state = parseChartState(new URLSearchParams(searchString));
+        const qs = serializeChartState({
+          ...state,
+          games: state.games.filter(game => !failed.includes(game.id)),
+          groups: state.groups
+            .map(group => ({ ...group, appids: group.appids.filter(id => !failed.includes(id)) }))
+            .filter(group => group.appids.length > 0),
+        });
+        router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+      }
+    });
+
+    return () => {
+      controller.abort();
+      setPending(prev => prev.filter(game => !isMissing(game.id)));
+    };
+  }, [searchString, pathname, router]);
+
+  // Annotations for the selected games, refetched when the selection changes
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [hiddenCategories, setHiddenCategories] = useState<Set<AnnotationCategory>>(new Set());
+  const selectedIds = selectedGames.map(game => game.id).join(',');
+
+  useEffect(() => {
+    if (!selectedIds) {
+      setAnnotations([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/annotations?appids=${selectedIds}`)
+      .then(res => res.json())
+      .then(json => {
+        if (!cancelled && json.data) setAnnotations(json.data);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load annotations.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIds]);
+
+  const createAnnotation = async (input: AnnotationInput) => {
+    const res = await fetch('/api/annotations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    const json = await res.json();
+    if (!res.ok) {
+      setError(json.error ?? 'Could not save annotation.');
+      return;
+    }
+    setAnnotations(prev => [...prev, json.data].sort((a, b) => a.start - b.start));
+  };
+
+  const deleteAnnotation = async (id: string) => {
+    const res = await fetch(`/api/annotations/${id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      setError('Could not delete annotation.');
+      return;
+    }
+    setAnnotations(prev => prev.filter(annotation => annotation.id !== id));
+  };
+
+  const toggleCategory = (category: AnnotationCategory) => {
+    setHiddenCategories(prev => {
+      const next = new Set(prev);
+      if (next.has(category)) {
+        next.delete(category);
+      } else {
+        next.add(category);
+      }
+      return next;
+    });
+  };
+
+  // Saved comparisons, listed when the sidebar opens
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+
+  useEffect(() => {
+    if (!sidebarOpen) return;
+
+    let cancelled = false;
+    fetchApi<{ data: Comparison[] }>('/api/comparisons')
+      .then(json => {
+        if (!cancelled) setComparisons(json.data);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load saved comparisons.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sidebarOpen]);
+
+  const byName = (a: Comparison, b: Comparison) => a.name.localeCompare(b.name);
+
+  const saveComparison = async (name: string, query = serializeChartState(chartState)) => {
+    try {
+      const json = await fetchApi<{ data: Comparison }>('/api/comparisons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, query }),
+      });
+      setComparisons(prev => [...prev, json.data].sort(byName));
+    } catch (error) {
+      setError(errorMessage(error, 'Could not save comparison.'));
+    }
+  };
+
+  const renameComparison = async (id: string, name: string) => {
+    try {
+      const json = await fetchApi<{ data: Comparison }>(`/api/comparisons/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      setComparisons(prev => prev.map(comparison => comparison.id === id ? json.data : comparison).sort(byName));
+    } catch (error) {
+      setError(errorMessage(error, 'Could not rename comparison.'));
+    }
+  };
+
+  const deleteComparison = async (id: string) => {
+    const res = await fetch(`/api/comparisons/${id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      setError('Could not delete comparison.');
+      return;
+    }
+    setComparisons(prev => prev.filter(comparison => comparison.id !== id));
+  };
+
+  const importComparisons = async (file: File) => {
+    try {
+      const body = await file.text();
+      const json = await fetchApi<{ data: Comparison[] }>('/api/comparisons/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      setComparisons(prev => [...prev, ...json.data].sort(byName));
+    } catch (error) {
+      setError(errorMessage(error, 'Could not import comparisons.'));
+    }
+  };
+
+  // Each group is drawn as one synthetic series, followed by its members
+  // when expanded (unless they are already selected on their own)
+  const groupSeries = chartState.groups.flatMap((group, index): SelectedGame[] => {
+    const members = group.appids.flatMap(id => groupMembers.find(game => game.id === id) ?? []);
+    if (members.length === 0) return [];
+
+    const color = group.color || SERIES_COLORS[(chartState.games.length + index) % SERIES_COLORS.length];
+    const combined: SelectedGame = {
+      id: groupSeriesId(index),
+      name: group.name,
+      tiny_image: '',
+      color,
+      data: combineSeries(members.map(member => member.data), group.reducer),
+    };
+    const expanded = group.expanded
+      ? members
+        .filter(member => !selectedGames.some(game => game.id === member.id))
+        .map((member, memberIndex) => ({
+          ...member,
+          color: SERIES_COLORS[(SERIES_COLORS.indexOf(color) + memberIndex + 1) % SERIES_COLORS.length],
+        }))
+      : [];
+    return [combined, ...expanded];
+  });
+
+  // Everything drawn on the chart; a game in several expanded groups once
+  const chartGames = [...selectedGames, ...groupSeries]
+    .filter((game, index, all) => all.findIndex(other => other.id === game.id) === index);
+
+  const setGroups = (groups: ChartGroupRef[]) => {
+    navigate({ ...chartState, groups, start: null, end: null });
+  };
+
+  // Use the range from the URL, or a smart default for the charted series
+  const defaultRange = getDefaultRange(chartGames);
+  const startDate = chartState.start ?? defaultRange?.start ?? null;
+  const endDate = chartState.end ?? defaultRange?.end ?? null;
+
+  // Live mode: poll current players while the tab is visible and show them on
+  // the chips. Readings are kept apart from the loaded histories as a live
+  // tail drawn after each series, so polling neither moves the range nor
+  // refetches anything for it.
+  const [liveReadings, setLiveReadings] = useState<Record<number, LiveReading>>({});
+  const [liveTails, setLiveTails] = useState<Record<number, HistoricalPoint[]>>({});
+
+  useEffect(() => {
+    if (!chartState.options.live || !selectedIds) return;
+
+    const ids = selectedIds.split(',').map(Number);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let polling = false;
+
+    const poll = async () => {
+      polling = true;
+      const results = await Promise.allSettled(ids.map(id =>
+        fetchApi<{ player_count: number }>(`/api/players?appid=${id}`, { signal: controller.signal })
+      ));
+      polling = false;
+      if (controller.signal.aborted) return;
+
+      const at = Date.now();
+      setLiveReadings(prev => {
+        const next = { ...prev };
+        results.forEach((result, index) => {
+          const id = ids[index];
+          next[id] = result.status === 'fulfilled'
+            ? { count: result.value.player_count, at }
+            : { count: prev[id]?.count ?? null, at: prev[id]?.at ?? at, error: describeApiError(errorCode(result.reason), 'this game') };
+        });
+        return next;
+      });
+      setLiveTails(prev => {
+        const next = { ...prev };
+        results.forEach((result, index) => {
+          const id = ids[index];
+          if (result.status === 'fulfilled') next[id] = [...(prev[id] ?? []), { date: at, count: result.value.player_count }];
+        });
+        return next;
+      });
+
+      if (document.visibilityState === 'visible') timer = setTimeout(poll, LIVE_POLL_MS);
+    };
+
+    // Hidden tabs stop polling and catch up as soon as they are shown again
+    const handleVisibilityChange = () => {
+      clearTimeout(timer);
+      if (document.visibilityState === 'visible' && !polling) void poll();
+    };
+
+    if (document.visibilityState === 'visible') void poll();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [chartState.options.live, selectedIds]);
+
+  // Swap the overview for a finer slice once the visible range settles
+  const memberIds = groupMembers.map(game => game.id).join(',');
+
+  useEffect(() => {
+    const seriesIds = [...new Set(`${selectedIds},${memberIds}`.split(',').filter(Boolean).map(Number))];
+    if (seriesIds.length === 0 || startDate === null || endDate === null) return;
+
+    const ids = seriesIds.filter(id => {
+      const ranges = detailedRanges.current.get(id) ?? [];
+      return !ranges.some(range => range.from <= startDate && range.to >= endDate);
+    });
+    if (ids.length === 0) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      Promise.allSettled(ids.map(async id => {
+        const json = await fetchApi<{ data: HistoricalPoint[] }>(
+          `/api/history?appid=${id}&from=${startDate}&to=${endDate}&points=${DETAIL_POINTS}`,
+          { signal: controller.signal }
+        );
+        const loaded = loadedGames.current.get(id);
+        if (!loaded) return;
+        loadedGames.current.set(id, { ...loaded, data: spliceRange(loaded.data, json.data, startDate, endDate) });
+        detailedRanges.current.set(id, [...(detailedRanges.current.get(id) ?? []), { from: startDate, to: endDate }]);
+      })).then(() => {
+        // Games whose slice failed keep showing the overview
+        setSelectedGames(prev => prev.map(game => ({ ...game, data: loadedGames.current.get(game.id)?.data ?? game.data })));
+        setGroupMembers(prev => prev.map(game => ({ ...game, data: loadedGames.current.get(game.id)?.data ?? game.data })));
+      });
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [selectedIds, memberIds, startDate, endDate]);
+
+  // The appids behind a charted series, and the reducer combining a group
+  const seriesQuery = (game: SelectedGame) => {
+    const group = isGroupSeries(game) ? chartState.groups[-game.id - 1] : null;
+    return group ? `appids=${group.appids.join(',')}&reducer=${group.reducer}` : `appids=${game.id}`;
+  };
+
+  // Statistics and heatmaps come from the server, which has the full history
+  // of the visible range rather than the downsampled series drawn here
+  const tz = encodeURIComponent(resolveTimeZone(chartState.options.timeZone));
+  const gameSummaries = useSeriesFetch<GameSummary>(new Map(startDate === null || endDate === null
+    ? []
+    : chartGames.map(game => [game.id, `/api/stats?${seriesQuery(game)}&from=${startDate}&to=${endDate}&tz=${tz}`])));
+
+  const setRange =(start: number, end: number) => {
+    navigate({ ...chartState, start, end });
+  };
+
+  const setOptions = (patch: Partial<ChartOptions>) => {
+    navigate({ ...chartState, options: { ...chartState.options, ...patch } });
+  };
+
+  // Add a game picked from search & fetch its history
+  const addGame = async (game: Game) => {
+    if (chartState.games.find(g => g.id === game.id)) return;
+    setError('');
+
+    try {
+      if (!loadedGames.current.has(game.id)) {
+        setPending(prev => [...prev, { id: game.id, name: game.name }]);
+        // Search metadata isn't part of a selected game
+        await loadGame({ id: game.id, name: game.name, tiny_image: game.tiny_image });
+      }
+
+      // Adding a game resets the range to the new default
+      navigate({
+        ...chartState,
+        games: [...chartState.games, { id: game.id, color: getNextAvailableColor() }],
+        start: null,
+        end: null,
+      });
+    } catch (error) {
+      setError(describeApiError(errorCode(error), game.name));
+    } finally {
+      setPending(prev => prev.filter(g => g.id !== game.id));
+    }
+  };
+
+  const setRelease = (id: number, release: number | undefined) => {
+    navigate({
+      ...chartState,
+      games: chartState.games.map(game => game.id === id ? { ...game, release } : game),
+    });
+  };
+
+  const removeGame = (id: number) => {
+    navigate({
+      ...chartState,
+      games: chartState.games.filter(g => g.id !== id),
+      start: null,
+      end: null,
+    });
+  };
+
+  // 3. Process Data for Recharts with aggregation
+  const { options } = chartState;
+  const { timeZone, chartType } = options;
+  const grid = options.layout === 'grid' && chartGames.length > 1;
+  // A stack of one game is just an area, so small multiples draw areas
+  const stacked = isStacked(chartType) && !grid;
+  // Bars force monthly buckets and stacks force plain player counts
+  const interval = chartType === 'bar' ? BAR_INTERVAL : options.interval;
+  const scale: ScaleMode = stacked ? 'linear' : options.scale;
+
+  const intervalMs = startDate !== null && endDate !== null ? resolveInterval(interval, startDate, endDate) : 0;
+
+  // Live readings taken after the end of a game's history, drawn while the
+  // range follows the latest data
+  const liveTail = (game: SelectedGame): HistoricalPoint[] => {
+    const last = game.data[game.data.length - 1];
+    return options.live && chartState.end === null
+      ? (liveTails[game.id] ?? []).filter(point => !last || point.date > last.date)
+      : [];
+  };
+
+  // The chart's buckets for the visible range, worked out by the server from
+  // the full history: reducers other than the extremes would be skewed by
+  // the downsampled series loaded here
+  const servedSeries = useSeriesFetch<{ data: AggregatedPoint[] }>(new Map(startDate === null || endDate === null
+    ? []
+    : chartGames.map(game => [
+        game.id,
+        `/api/series?${seriesQuery(game)}&from=${startDate}&to=${endDate}&agg=${options.reducer}&interval=${interval}&points=${DETAIL_POINTS}`,
+      ])));
+
+  // Each game's aggregated series, the input for the chart, detection and
+  // forecasting. Until the server's buckets arrive, or if they failed, the
+  // loaded series is bucketed here. Live buckets replace the ones they
+  // continue.
+  const aggregatedSeries = startDate !== null && endDate !== null
+    ? chartGames.map(game => {
+        const points = servedSeries[game.id]?.data ?? aggregateSeries(game.data, startDate, endDate, intervalMs, options.reducer);
+        const live = aggregateData(liveTail(game), intervalMs, options.reducer);
+        return { game, points: [...points.filter(point => !live.some(bucket => bucket.date === point.date)), ...live] };
+      })
+    : [];
+  const chartData = mergeSeries(aggregatedSeries.map(({ game, points }) => ({ name: game.name, aggregatedData: points })));
+
+  // Release-aligned views replace calendar time with time since launch
+  const aligned = options.align !== 'calendar';
+  const unitLabel = options.align === 'weeks' ? 'Week' : 'Day';
+
+  // Spikes and drops on the aggregated series, calendar view only
+  const sensitivity: Sensitivity = aligned || stacked ? 'off' : options.events;
+  const events: GameEvent[] = sensitivity !== 'off'
+    ? aggregatedSeries.flatMap(({ game, points }) => detectEvents(points, SENSITIVITY_OPTIONS[sensitivity])
+        .map(event => ({ ...event, gameId: game.id, gameName: game.name, color: game.color })))
+    : [];
+
+  // Forecast past the last point, with a backtest over the held-out tail,
+  // calendar view only
+  const forecastModel: ForecastSetting = aligned || stacked ? 'off' : options.forecast;
+  const forecasts: GameForecast[] = forecastModel !== 'off'
+    ? aggregatedSeries.map(({ game, points }) => {
+        const result = backtest(points, forecastModel);
+        return {
+          game,
+          forecast: forecastSeries(points, forecastModel, options.horizon),
+          backtest: result,
+        };
+      })
+    : [];
+
+  const calendarData = forecastModel !== 'off'
+    ? mergeForecasts(chartData, forecasts.map(({ game, forecast, backtest: result }) => ({
+        name: game.name,
+        forecast,
+        backtest: result?.predictions ?? [],
+      })))
+    : chartData;
+
+  const displayData = applyScale(
+    options.align !== 'calendar' ? processAlignedData(chartGames, options.align, options) : calendarData,
+    chartGames,
+    scale
+  );
+  
+  // Stretches of each series drawn as connected lines: gaps in the data
+  // break the line instead of being bridged by a straight segment
+  const segmentsFor = (game: SelectedGame): TimeRange[] => {
+    const gaps = game.quality?.gaps ?? [];
+    if (options.align === 'calendar') return splitAtGaps(gaps, intervalMs);
+
+    // Aligned rows are dated in days or weeks since launch
+    const launch = getLaunchDate(game);
+    const unitMs = UNIT_MS[options.align];
+    return launch === null
+      ? splitAtGaps([])
+      : splitAtGaps(gaps.map(gap => ({ from: (gap.from - launch) / unitMs, to: (gap.to - launch) / unitMs })), 1);
+  };
+  const inSegment = (row: ChartRow, segment: TimeRange) => row.date >= segment.from && row.date <= segment.to;
+
+  // Min–max bands only make sense around a single line or area
+  const showBand = options.reducer === 'band' && !stacked && chartType !== 'bar';
+
+  // Small multiples can share the Y range of the busiest game so panels
+  // compare at a glance, otherwise each fits its own game
+  const sharedValues = grid && options.sharedY
+    ? displayData.flatMap(row => chartGames.flatMap(game => [
+        row[game.name], row[bandKeys(game.name).max], row[forecastKeys(game.name).upper],
+      ])).filter(value => Number.isFinite(value) && (scale !== 'log' || value > 0))
+    : [];
+  const yDomain: [AxisDomainItem, AxisDomainItem] = chartType === 'percent' && stacked
+    ? [0, 1]
+    : sharedValues.length > 0
+      ? [
+          scale === 'log' ? sharedValues.reduce((min, value) => Math.min(min, value)) : 0,
+          sharedValues.reduce((max, value) => Math.max(max, value)),
+        ]
+      : scale === 'log' ? ['auto', 'auto'] : [0, 'auto'];
+
+  // Get dynamic date format based on current range
+  const dateFormat = startDate !== null && endDate !== null 
+    ? getDateFormat(startDate, endDate) 
+    : 'MMM yyyy';
+
+  // Reset zoom to default
+  const resetZoom = () => {
+    if (chartGames.length === 0) return;
+    navigate({ ...chartState, start: null, end: null });
+  };
+
+  // Drag-to-zoom handlers
+  // Zoom works on calendar time only
+  const handleMouseDown = (e: MouseHandlerDataParam) => {
+    if (!aligned && e && e.activeLabel) {
+      setRefAreaLeft(e.activeLabel);
+      setIsSelecting(true);
+    }
+  };
+
+  const handleMouseMove = (e: MouseHandlerDataParam) => {
+    if (isSelecting && e && e.activeLabel) {
+      setRefAreaRight(e.activeLabel);
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (!isSelecting) return;
+    
+    setIsSelecting(false);
+    
+    if (refAreaLeft === refAreaRight || refAreaRight === '') {
+      setRefAreaLeft('');
+      setRefAreaRight('');
+      return;
+    }
+
+    // Zoom into the selected area
+    let left = typeof refAreaLeft === 'number' ? refAreaLeft : parseInt(refAreaLeft);
+    let right = typeof refAreaRight === 'number' ? refAreaRight : parseInt(refAreaRight);
+
+    if (left > right) {
+      [left, right] = [right, left];
+    }
+
+    setRange(left, right);
+    setRefAreaLeft('');
+    setRefAreaRight('');
+  };
+
+  // Handle date input changes; days are read in the selected timezone
+  const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Start of day (00:00:00.000)
+    const date = parseDateInput(e.target.value, timeZone);
+    if (date !== null && endDate !== null) setRange(date, endDate);
+  };
+
+  const handleEndDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // End of day (23:59:59.999)
+    const date = parseDateInput(e.target.value, timeZone, true);
+    if (date !== null && startDate !== null) setRange(startDate, date);
+  };
+
+  // Each game drawn in the chosen chart type. Lines and areas are split at
+  // gaps; stacks need every game in every row, so they bridge them.
+  const renderSeries = (game: SelectedGame) => {
+    if (stacked) {
+      return [
+        <Area
+          key={game.id}
+          type="monotone"
+          name={game.name}
+          dataKey={game.name}
+          stackId="players"
+          stroke={game.color}
+          fill={game.color}
+          fillOpacity={0.5}
+          strokeWidth={1}
+          animationDuration={1000}
+          connectNulls={true}
+        />,
+      ];
+    }
+    if (chartType === 'bar') {
+      return [
+        <Bar key={game.id} name={game.name} dataKey={game.name} fill={game.color} maxBarSize={40} animationDuration={1000} />,
+      ];
+    }
+
+    const segments = segmentsFor(game);
+    return segments.map((segment, index) => {
+      const dataKey = segments.length === 1 ? game.name : (row: ChartRow) => inSegment(row, segment) ? row[game.name] : null;
+      return chartType === 'line' ? (
+        <Line
+          key={`${game.id}-${index}`}
+          type="monotone"
+          name={game.name}
+          dataKey={dataKey}
+          stroke={game.color}
+          strokeWidth={2}
+          dot={false}
+          legendType={index === 0 ? undefined : 'none'}
+          animationDuration={1000}
+          connectNulls={true}
+        />
+      ) : (
+        <Area
+          key={`${game.id}-${index}`}
+          type="monotone"
+          name={game.name}
+          dataKey={dataKey}
+          stroke={game.color}
+          fill={`url(#color-${game.id})`}
+          strokeWidth={2}
+          baseValue={scale === 'log' ? 'dataMin' : undefined}
+          legendType={index === 0 ? undefined : 'none'}
+          animationDuration={1000}
+          connectNulls={true}
+        />
+      );
+    });
+  };
+
+  // A chart of some of the games. Small multiples draw one per game without
+  // a legend; all of them share the drag handlers and selection, so zooming
+  // on any panel zooms every panel.
+  const renderChart = (games: SelectedGame[], compact: boolean) => {
+    const ids = new Set(games.map(game => game.id));
+    const fontSize = compact ? 10 : 12;
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart 
+          data={displayData}
+          syncId={compact ? 'small-multiples' : undefined}
+          stackOffset={chartType === 'percent' && stacked ? 'expand' : undefined}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+        >
+          <defs>
+            {games.map(game => (
+              <linearGradient key={game.id} id={`color-${game.id}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={game.color} stopOpacity={0.3}/>
+                <stop offset="95%" stopColor={game.color} stopOpacity={0}/>
+              </linearGradient>
+            ))}
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+          <XAxis 
+            dataKey="date" 
+            type="number"
+            stroke="#94a3b8" 
+            fontSize={fontSize}
+            tickFormatter={(value) => aligned ? `${unitLabel} ${value}` : formatInTimeZone(value, dateFormat, timeZone)}
+            minTickGap={50}
+            domain={['dataMin', 'dataMax']}
+            // Room for the first and last month's bars
+            padding={chartType === 'bar' ? { left: 24, right: 24 } : undefined}
+          />
+          <YAxis 
+            stroke="#94a3b8" 
+            fontSize={fontSize}
+            width={compact ? 48 : undefined}
+            scale={scale === 'log' ? 'log' : 'auto'}
+            domain={yDomain}
+            allowDataOverflow={scale === 'log'}
+            tickFormatter={(val) => chartType === 'percent' && stacked
+              ? `${Math.round(val * 100)}%`
+              : formatAxisValue(val, scale)}
+          />
+          <Tooltip 
+            contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#fff' }}
+            labelFormatter={(label) => aligned
+              ? `${unitLabel} ${label} since launch · ${REDUCER_LABELS[options.reducer]} per ${unitLabel.toLowerCase()}`
+              : startDate !== null && endDate !== null
+                ? `${formatInTimeZone(label, 'PPpp', timeZone)} · ${REDUCER_LABELS[options.reducer]}, ${describeInterval(interval, startDate, endDate)}`
+                : formatInTimeZone(label, 'PPpp', timeZone)}
+            formatter={(value, name, item) => {
+              const text = formatTooltipValue(Number(value), item.payload?.[rawKey(String(name))], scale);
+              // Aligned points come from different calendar dates per game
+              const calendarDate = aligned ? item.payload?.[calendarKey(String(name))] : undefined;
+              return calendarDate !== undefined ? `${text} · ${formatInTimeZone(calendarDate, 'PP', timeZone)}` : text;
+            }}
+          />
+          {!compact && <Legend iconType="circle" />}
+          {showBand && games.flatMap((game) => {
+            const keys = bandKeys(game.name);
+            return segmentsFor(game).map((segment, index) => (
+              <Area
+                key={`band-${game.id}-${index}`}
+                type="monotone"
+                dataKey={(row: ChartRow) => inSegment(row, segment) ? [row[keys.min], row[keys.max]] : null}
+                stroke="none"
+                fill={game.color}
+                fillOpacity={0.15}
+                baseValue={scale === 'log' ? 'dataMin' : undefined}
+                legendType="none"
+                tooltipType="none"
+                isAnimationActive={false}
+                connectNulls={true}
+              />
+            ));
+          })}
+          {games.flatMap(renderSeries)}
+          {!aligned && games.flatMap(game => (game.quality?.zeroRuns ?? []).map(run => (
+            <ReferenceArea
+              key={`zeros-${game.id}-${run.from}`}
+              x1={run.from}
+              x2={run.to}
+              fill={game.color}
+              fillOpacity={0.08}
+              ifOverflow="hidden"
+            />
+          )))}
+          {forecastModel !== 'off' && forecasts.filter(({ game }) => ids.has(game.id)).map(({ game }) => {
+            const keys = forecastKeys(game.name);
+            return (
+              <Area
+                key={`forecast-band-${game.id}`}
+                type="monotone"
+                dataKey={(row: ChartRow) => [row[keys.lower], row[keys.upper]]}
+                stroke="none"
+                fill={game.color}
+                fillOpacity={0.1}
+                legendType="none"
+                tooltipType="none"
+                isAnimationActive={false}
+              />
+            );
+          })}
+          {forecastModel !== 'off' && forecasts.filter(({ game }) => ids.has(game.id)).map(({ game }) => (
+            <Area
+              key={`forecast-${game.id}`}
+              type="monotone"
+              dataKey={forecastKeys(game.name).value}
+              stroke={game.color}
+              strokeDasharray="6 4"
+              strokeWidth={2}
+              fill="none"
+              legendType="none"
+              isAnimationActive={false}
+            />
+          ))}
+          {forecastModel !== 'off' && forecasts.filter(({ game }) => ids.has(game.id)).map(({ game }) => (
+            <Area
+              key={`backtest-${game.id}`}
+              type="monotone"
+              dataKey={forecastKeys(game.name).backtest}
+              stroke={game.color}
+              strokeOpacity={0.6}
+              strokeDasharray="2 3"
+              fill="none"
+              legendType="none"
+              isAnimationActive={false}
+            />
+          ))}
+          {!aligned && annotations
+            .filter(annotation => !hiddenCategories.has(annotation.category))
+            .map(annotation => annotation.end !== undefined ? (
+              <ReferenceArea
+                key={`annotation-${annotation.id}`}
+                x1={annotation.start}
+                x2={annotation.end}
+                fill={ANNOTATION_CATEGORY_COLORS[annotation.category]}
+                fillOpacity={0.1}
+                stroke={ANNOTATION_CATEGORY_COLORS[annotation.category]}
+                strokeOpacity={0.4}
+                ifOverflow="hidden"
+                label={compact ? undefined : { value: annotation.label, fill: ANNOTATION_CATEGORY_COLORS[annotation.category], fontSize: 11, position: 'insideTop' }}
+              />
+            ) : (
+              <ReferenceLine
+                key={`annotation-${annotation.id}`}
+                x={annotation.start}
+                stroke={ANNOTATION_CATEGORY_COLORS[annotation.category]}
+                strokeDasharray="2 4"
+                label={compact ? undefined : { value: annotation.label, fill: ANNOTATION_CATEGORY_COLORS[annotation.category], fontSize: 11, position: 'insideTopLeft' }}
+              />
+            ))}
+          {sensitivity !== 'off' && events.filter(event => ids.has(event.gameId)).map(event => {
+            const y = displayData.find(row => row.date === event.date)?.[event.gameName];
+            if (y === undefined) return null;
+            return (
+              <ReferenceDot
+                key={`event-${event.gameId}-${event.date}`}
+                x={event.date}
+                y={y}
+                r={compact ? 4 : 5}
+                fill={event.kind === 'spike' ? '#22c55e' : '#ef4444'}
+                stroke={event.color}
+                strokeWidth={2}
+              />
+            );
+          })}
+          {sensitivity !== 'off' && highlightedEvent && (
+            <ReferenceLine
+              x={highlightedEvent.date}
+              stroke={highlightedEvent.color}
+              strokeDasharray="4 4"
+              label={{ value: highlightedEvent.kind === 'spike' ? 'Spike' : 'Drop', fill: '#e2e8f0', fontSize: 12, position: 'top' }}
+            />
+          )}
+          {refAreaLeft && refAreaRight && (
+            <ReferenceArea
+              x1={refAreaLeft}
+              x2={refAreaRight}
+              strokeOpacity={0.3}
+              fill="#3b82f6"
+              fillOpacity={0.3}
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-200 font-sans p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        
+        {/* Header & Search */}
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 border-b border-slate-800 pb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white flex items-center gap-2">
+              <Activity className="text-blue-500" /> Steam History Compare
+            </h1>
+            <p className="text-slate-400 text-sm mt-1">
+              Visualize real player count history (sourced from SteamCharts).
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2 w-full md:w-auto">
+            <GameSearch onSelect={addGame} onError={setError} />
+            <button
+              onClick={() => setSidebarOpen(open => !open)}
+              className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white transition-colors"
+              title="Saved comparisons"
+            >
+              <Bookmark className="w-4 h-4" />
+              Saved
+            </button>
+          </div>
+        </div>
+
+        {sidebarOpen && (
+          <ComparisonsSidebar
+            comparisons={comparisons}
+            currentQuery={serializeChartState(chartState)}
+            canSave={chartState.games.length > 0}
+            onSave={saveComparison}
+            onLoad={(comparison) => navigate(parseChartState(new URLSearchParams(comparison.query)))}
+            onRename={renameComparison}
+            onDuplicate={(comparison) => saveComparison(`${comparison.name} (copy)`, comparison.query)}
+            onDelete={deleteComparison}
+            onImport={importComparisons}
+            onClose={() => setSidebarOpen(false)}
+            timeZone={timeZone}
+          />
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 text-red-200 px-4 py-3 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        )}
+
+        {/* Date Range Controls */}
+        {chartGames.length > 0 && (
+          <div className="bg-slate-900 border border-slate-800 rounded-lg p-4 flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Start Date:</label>
+              <input
+                type="date"
+                value={startDate ? formatInTimeZone(startDate, 'yyyy-MM-dd', timeZone) : ''}
+                onChange={handleStartDateChange}
+                disabled={aligned}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">End Date:</label>
+              <input
+                type="date"
+                value={endDate ? formatInTimeZone(endDate, 'yyyy-MM-dd', timeZone) : ''}
+                onChange={handleEndDateChange}
+                disabled={aligned}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Aggregate:</label>
+              <select
+                value={options.reducer}
+                onChange={(e) => setOptions({ reducer: e.target.value as Reducer })}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {REDUCERS.map(reducer => (
+                  <option key={reducer} value={reducer}>{REDUCER_LABELS[reducer]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Interval:</label>
+              <select
+                value={interval}
+                onChange={(e) => setOptions({ interval: e.target.value as IntervalChoice })}
+                disabled={chartType === 'bar'}
+                title={chartType === 'bar' ? 'Bars are always monthly' : undefined}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+              >
+                {INTERVAL_CHOICES.map(interval => (
+                  <option key={interval} value={interval}>{INTERVAL_LABELS[interval]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Scale:</label>
+              <select
+                value={scale}
+                onChange={(e) => setOptions({ scale: e.target.value as ScaleMode })}
+                disabled={stacked}
+                title={stacked ? 'Stacked charts add up player counts' : undefined}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+              >
+                {SCALE_MODES.map(mode => (
+                  <option key={mode} value={mode}>{SCALE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Chart:</label>
+              <select
+                value={chartType}
+                onChange={(e) => setOptions({ chartType: e.target.value as ChartType })}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {CHART_TYPES.map(type => (
+                  <option key={type} value={type}>{CHART_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <select
+                value={options.layout}
+                onChange={(e) => setOptions({ layout: e.target.value as ChartLayout })}
+                title="Small multiples draw stacked types as areas"
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {CHART_LAYOUTS.map(layout => (
+                  <option key={layout} value={layout}>{CHART_LAYOUT_LABELS[layout]}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-400" title="Give every small chart the same Y range">
+              <input
+                type="checkbox"
+                checked={options.sharedY}
+                onChange={(e) => setOptions({ sharedY: e.target.checked })}
+                disabled={!grid}
+                className="accent-blue-500 disabled:opacity-50"
+              />
+              Shared Y
+            </label>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">X Axis:</label>
+              <select
+                value={options.align}
+                onChange={(e) => setOptions({ align: e.target.value as AlignMode })}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {ALIGN_MODES.map(align => (
+                  <option key={align} value={align}>{ALIGN_LABELS[align]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Events:</label>
+              <select
+                value={options.events}
+                onChange={(e) => setOptions({ events: e.target.value as Sensitivity })}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {SENSITIVITIES.map(sensitivity => (
+                  <option key={sensitivity} value={sensitivity}>{SENSITIVITY_LABELS[sensitivity]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Forecast:</label>
+              <select
+                value={options.forecast}
+                onChange={(e) => setOptions({ forecast: e.target.value as ForecastSetting })}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {FORECAST_SETTINGS.map(setting => (
+                  <option key={setting} value={setting}>{FORECAST_LABELS[setting]}</option>
+                ))}
+              </select>
+              <select
+                value={options.horizon}
+                onChange={(e) => setOptions({ horizon: Number(e.target.value) as ForecastHorizon })}
+                disabled={options.forecast === 'off'}
+                title="Forecast horizon"
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+              >
+                {FORECAST_HORIZONS.map(horizon => (
+                  <option key={horizon} value={horizon}>{horizon} days</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-400">Timezone:</label>
+              <select
+                value={timeZone}
+                onChange={(e) => setOptions({ timeZone: e.target.value })}
+                className="bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none max-w-48"
+              >
+                {getTimeZoneOptions().map(zone => (
+                  <option key={zone} value={zone}>
+                    {zone === 'local' ? `Browser (${resolveTimeZone(zone)})` : zone}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              <input
+                type="checkbox"
+                checked={options.heatmap}
+                onChange={(e) => setOptions({ heatmap: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Weekday × hour heatmap
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-400" title="Compare how two of the games move together">
+              <input
+                type="checkbox"
+                checked={options.correlation}
+                onChange={(e) => setOptions({ correlation: e.target.checked })}
+                disabled={chartGames.length < 2}
+                className="accent-blue-500 disabled:opacity-50"
+              />
+              Correlation
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-400" title="Poll current player counts every minute">
+              <input
+                type="checkbox"
+                checked={options.live}
+                onChange={(e) => setOptions({ live: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Live
+            </label>
+            <button
+              onClick={resetZoom}
+              className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded px-3 py-1 text-sm text-white transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset Zoom
+            </button>
+            {startDate !== null && endDate !== null && (
+              <div className="ml-auto">
+                <ExportMenu
+                  rows={chartData}
+                  games={chartGames}
+                  startDate={startDate}
+                  endDate={endDate}
+                  chartContainer={chartContainer}
+                  grid={grid}
+                  onError={setError}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Selected Games List */}
+        <div className="flex flex-wrap gap-3">
+          {selectedGames.map((game) => (
+            <div 
+              key={game.id} 
+              className="flex items-center gap-3 bg-slate-900 border border-slate-800 rounded-lg pl-3 pr-4 py-2 shadow-sm"
+              style={{ borderLeft: `4px solid ${game.color}` }}
+            >
+              {game.tiny_image && <img src={game.tiny_image} alt="" className="w-6 h-6 rounded" />}
+              <span className="text-sm font-medium text-white">{game.name}</span>
+              {game.quality && <CoverageBadge quality={game.quality} timeZone={timeZone} />}
+              {options.live && <LiveBadge reading={liveReadings[game.id]} timeZone={timeZone} />}
+              {aligned && (
+                <label className="flex items-center gap-1 text-xs text-slate-400" title="Launch date used to align this game">
+                  Launch:
+                  <input
+                    type="date"
+                    value={getLaunchDate(game) !== null ? formatInTimeZone(getLaunchDate(game)!, 'yyyy-MM-dd', timeZone) : ''}
+                    onChange={(e) => setRelease(game.id, parseDateInput(e.target.value, timeZone) ?? undefined)}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  />
+                </label>
+              )}
+              <button 
+                onClick={() => removeGame(game.id)}
+                className="ml-2 text-slate-500 hover:text-white"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {pending.map((game) => (
+            <div
+              key={`pending-${game.id}`}
+              className="flex items-center gap-3 bg-slate-900/60 border border-dashed border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-400"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading {game.name}...
+            </div>
+          ))}
+        </div>
+
+        {/* The Chart */}
+        <div className="flex flex-col lg:flex-row gap-4">
+        <div ref={chartContainer} className={`flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl ${grid ? '' : 'h-[500px]'}`}>
+          {chartGames.length > 0 ? (
+            grid ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+                {chartGames.map(game => (
+                  <div key={game.id}>
+                    <div className="flex items-center gap-2 text-sm font-medium text-white mb-1">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: game.color }} />
+                      {game.name}
+                    </div>
+                    <div className="h-52">{renderChart([game], true)}</div>
+                  </div>
+                ))}
+              </div>
+            ) : renderChart(chartGames, false)
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center text-slate-600">
+              <Activity className="w-16 h-16 mb-4 opacity-20" />
+              <p>{pending.length > 0 ? 'Loading player history...' : 'Add a game to view its lifetime player history'}</p>
+              <p className="text-sm mt-2 text-slate-700">Tip: Click and drag on the chart to zoom into a time range</p>
+            </div>
+          )}
+        </div>
+
+        {/* Detected spikes and drops */}
+        {sensitivity !== 'off' && (
+          <EventsList events={events} highlighted={highlightedEvent} onHighlight={setHighlightedEvent} timeZone={timeZone} />
+        )}
+        </div>
+
+        {/* Daily and weekly cycles */}
+        {options.heatmap && startDate !== null && endDate !== null && (
+          <SeasonalityHeatmap games={chartGames} summaries={gameSummaries} timeZone={timeZone} />
+        )}
+
+        {/* How two games move together */}
+        {options.correlation && chartGames.length >= 2 && startDate !== null && endDate !== null && (
+          <CorrelationPanel
+            games={chartGames}
+            startDate={startDate}
+            endDate={endDate}
+            intervalMs={intervalMs}
+            reducer={options.reducer}
+            timeZone={timeZone}
+          />
+        )}
+
+        {/* Forecast accuracy */}
+        {forecastModel !== 'off' && (
+          <ForecastPanel forecasts={forecasts} model={forecastModel} horizon={options.horizon} timeZone={timeZone} />
+        )}
+
+        {/* Groups of games combined into one series */}
+        {(selectedGames.length > 0 || chartState.groups.length > 0) && (
+          <GroupsPanel
+            groups={chartState.groups}
+            games={selectedGames}
+            gameName={id => groupMembers.find(game => game.id === id)?.name ?? `App ${id}`}
+            nextColor={getNextAvailableColor()}
+            onChange={setGroups}
+          />
+        )}
+
+        {/* User annotations */}
+        {selectedGames.length > 0 && (
+          <AnnotationsPanel
+            games={selectedGames}
+            annotations={annotations}
+            hiddenCategories={hiddenCategories}
+            onToggleCategory={toggleCategory}
+            onCreate={createAnnotation}
+            onDelete={deleteAnnotation}
+            timeZone={timeZone}
+          />
+        )}
+
+        {/* Statistics for the visible range */}
+        {chartGames.length > 0 && startDate !== null && endDate !== null && (
+          <StatsPanel games={chartGames} summaries={gameSummaries} startDate={startDate} endDate={endDate} timeZone={timeZone} />
+        )}
+        
+      </div>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function CompareApp() {
+  return (
+    <Suspense>
+      <SteamCompareApp />
+    </Suspense>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Copy, Download, Pencil, Trash2, Upload, X } from 'lucide-react';
+import type { Comparison } from '@/lib/comparisons';
+import { formatInTimeZone } from '@/lib/timezone';
+
+type ComparisonsSidebarProps = {
+  comparisons: Comparison[];
+  // Query string of the view on screen, to mark the comparison it came from
+  currentQuery: string;
+  canSave: boolean;
+  onSave: (name: string) => Promise<void>;
+  onLoad: (comparison: Comparison) => void;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDuplicate: (comparison: Comparison) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onClose: () => void;
+  timeZone: string;
+};
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+const iconButtonClass = 'p-1 text-slate-500 hover:text-white';
+
+export default function ComparisonsSidebar({
+  comparisons, currentQuery, canSave, onSave, onLoad, onRename, onDuplicate, onDelete, onImport, onClose, timeZone,
+}: ComparisonsSidebarProps) {
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Comparison being renamed, and the name typed so far
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave(name);
+      setName('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startRename = (comparison: Comparison) => {
+    setEditingId(comparison.id);
+    setDraft(comparison.name);
+  };
+
+  const finishRename = async (comparison: Comparison) => {
+    setEditingId(null);
+    if (draft.trim() && draft.trim() !== comparison.name) await onRename(comparison.id, draft);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires
+    e.target.value = '';
+    if (file) await onImport(file);
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-[60] w-80 max-w-full bg-slate-900 border-l border-slate-800 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+        <h2 className="text-sm font-semibold text-white">Saved comparisons</h2>
+        <button onClick={onClose} className={iconButtonClass} title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2 px-4 py-3 border-b border-slate-800">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={canSave ? 'Name this view' : 'Add games to save a view'}
+          disabled={!canSave}
+          maxLength={80}
+          className={`${inputClass} flex-1 min-w-0 disabled:opacity-50`}
+        />
+        <button
+          type="submit"
+          disabled={!canSave || saving || !name.trim()}
+          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded px-3 py-1 text-sm text-white transition-colors"
+        >
+          Save
+        </button>
+      </form>
+
+      <ul className="flex-1 overflow-y-auto">
+        {comparisons.length === 0 && (
+          <li className="px-4 py-3 text-sm text-slate-500">No saved comparisons yet.</li>
+        )}
+        {comparisons.map(comparison => (
+          <li
+            key={comparison.id}
+            className={`group flex items-center gap-2 px-4 py-2 border-b border-slate-800 ${
+              comparison.query === currentQuery ? 'bg-slate-800/60' : ''
+            }`}
+          >
+            {editingId === comparison.id ? (
+              <input
+                type="text"
+                value={draft}
+                autoFocus
+                maxLength={80}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={() => finishRename(comparison)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+            ) : (
+              <button onClick={() => onLoad(comparison)} className="flex-1 min-w-0 text-left" title="Load this comparison">
+                <div className="truncate text-sm text-white">{comparison.name}</div>
+                <div className="text-xs text-slate-500">
+                  Saved {formatInTimeZone(comparison.updatedAt, 'MMM d, yyyy', timeZone)}
+                </div>
+              </button>
+            )}
+            <button onClick={() => startRename(comparison)} className={iconButtonClass} title="Rename">
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onDuplicate(comparison)} className={iconButtonClass} title="Duplicate">
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onDelete(comparison.id)} className={iconButtonClass} title="Delete">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2 px-4 py-3 border-t border-slate-800">
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex flex-1 items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded px-3 py-1 text-sm text-white transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </button>
+        <a
+          href="/api/comparisons/export"
+          download
+          className="flex flex-1 items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded px-3 py-1 text-sm text-white transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </a>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import { aggregateSeries, type Reducer } from '@/lib/chartData';
+import {
+  alignSeries, correlate, crossCorrelation, rollingCorrelation, strongestLag, toChanges,
+  CORRELATION_METHOD_LABELS, CORRELATION_METHODS, MIN_PAIRS, SERIES_TRANSFORM_LABELS, SERIES_TRANSFORMS,
+  type CorrelationMethod, type SeriesTransform,
+} from '@/lib/correlation';
+import { formatInTimeZone } from '@/lib/timezone';
+import type { SelectedGame } from '@/lib/types';
+
+type CorrelationPanelProps = {
+  games: SelectedGame[];
+  startDate: number;
+  endDate: number;
+  // Bucket size of the chart; raw views are compared hour by hour
+  intervalMs: number;
+  reducer: Reducer;
+  timeZone: string;
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const MAX_LAG = 14;
+const ROLLING_WINDOWS = [7, 14, 30];
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const formatLag = (lag: number, bucketMs: number) => {
+  const unit = bucketMs >= 30 * DAY ? 'mo' : bucketMs >= 7 * DAY ? 'wk' : bucketMs >= DAY ? 'd' : 'h';
+  const size = unit === 'h' ? Math.round(bucketMs / HOUR) : 1;
+  return `${lag > 0 ? '+' : ''}${lag * size}${unit}`;
+};
+
+const formatR = (r: number | null) => r === null ? '—' : r.toFixed(2);
+
+const describeStrength = (r: number) => {
+  const size = Math.abs(r);
+  const strength = size >= 0.7 ? 'Strong' : size >= 0.4 ? 'Moderate' : size >= 0.2 ? 'Weak' : 'No clear';
+  return size < 0.2 ? `${strength} correlation` : `${strength} ${r > 0 ? 'positive' : 'negative'} correlation`;
+};
+
+export default function CorrelationPanel({ games, startDate, endDate, intervalMs, reducer, timeZone }: CorrelationPanelProps) {
+  const [firstId, setFirstId] = useState<number | null>(null);
+  const [secondId, setSecondId] = useState<number | null>(null);
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [transform, setTransform] = useState<SeriesTransform>('levels');
+  const [windowSize, setWindowSize] = useState(14);
+
+  // Fall back to the first two games until the user picks, or when a pick
+  // was removed from the chart
+  const first = games.find(game => game.id === firstId) ?? games[0];
+  const second = games.find(game => game.id === secondId && game.id !== first.id)
+    ?? games.find(game => game.id !== first.id)!;
+
+  const bucketMs = intervalMs > 0 ? intervalMs : HOUR;
+  const prepare = (game: SelectedGame) => {
+    const points = aggregateSeries(game.data, startDate, endDate, bucketMs, reducer);
+    return transform === 'changes' ? toChanges(points, bucketMs) : points;
+  };
+  const a = prepare(first);
+  const b = prepare(second);
+
+  const pairs = alignSeries(a, b);
+  const r = correlate(pairs, method);
+  const lags = crossCorrelation(a, b, bucketMs, Math.min(MAX_LAG, Math.floor(pairs.length / 4)), method);
+  const best = strongestLag(lags);
+  const rolling = rollingCorrelation(pairs, windowSize, method);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-sm font-semibold text-white mr-2">Correlation</h2>
+        <select value={first.id} onChange={(e) => setFirstId(Number(e.target.value))} className={inputClass}>
+          {games.map(game => <option key={game.id} value={game.id}>{game.name}</option>)}
+        </select>
+        <span className="text-sm text-slate-500">vs</span>
+        <select value={second.id} onChange={(e) => setSecondId(Number(e.target.value))} className={inputClass}>
+          {games.filter(game => game.id !== first.id).map(game => (
+            <option key={game.id} value={game.id}>{game.name}</option>
+          ))}
+        </select>
+        <select value={method} onChange={(e) => setMethod(e.target.value as CorrelationMethod)} className={inputClass}>
+          {CORRELATION_METHODS.map(option => (
+            <option key={option} value={option}>{CORRELATION_METHOD_LABELS[option]}</option>
+          ))}
+        </select>
+        <select value={transform} onChange={(e) => setTransform(e.target.value as SeriesTransform)} className={inputClass}>
+          {SERIES_TRANSFORMS.map(option => (
+            <option key={option} value={option}>{SERIES_TRANSFORM_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      {pairs.length < MIN_PAIRS ? (
+        <p className="text-sm text-slate-500">
+          {first.name} and {second.name} don&apos;t have enough data in common in this range.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+            <div>
+              <span className="text-slate-400">{CORRELATION_METHOD_LABELS[method]} r = </span>
+              <span className="text-white font-medium tabular-nums">{formatR(r)}</span>
+              <span className="text-slate-500"> over {pairs.length.toLocaleString()} buckets</span>
+              {r !== null && <span className="block text-xs text-slate-500">{describeStrength(r)}</span>}
+            </div>
+            {best && best.lag !== 0 && (
+              <div>
+                <span className="text-slate-400">Strongest at </span>
+                <span className="text-white font-medium tabular-nums">{formatLag(best.lag, bucketMs)}</span>
+                <span className="text-slate-400"> (r = {formatR(best.r)})</span>
+                <span className="block text-xs text-slate-500">
+                  {best.lag > 0 ? `${second.name} follows ${first.name}` : `${first.name} follows ${second.name}`}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-xs text-slate-400 mb-2">
+                Cross-correlation by lag (positive: {second.name} later)
+              </h3>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={lags}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                    <XAxis dataKey="lag" stroke="#94a3b8" fontSize={11} tickFormatter={(lag) => formatLag(lag, bucketMs)} />
+                    <YAxis stroke="#94a3b8" fontSize={11} domain={[-1, 1]} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#fff' }}
+                      labelFormatter={(lag) => `Lag ${formatLag(Number(lag), bucketMs)}`}
+                      formatter={(value) => [formatR(value as number | null), 'r']}
+                    />
+                    <ReferenceLine y={0} stroke="#475569" />
+                    <Bar dataKey="r" isAnimationActive={false}>
+                      {lags.map(lag => (
+                        <Cell
+                          key={lag.lag}
+                          fill={(lag.r ?? 0) >= 0 ? '#22c55e' : '#ef4444'}
+                          fillOpacity={best && lag.lag === best.lag ? 1 : 0.5}
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+                Rolling correlation over
+                <select
+                  value={windowSize}
+                  onChange={(e) => setWindowSize(Number(e.target.value))}
+                  className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-xs text-white"
+                >
+                  {ROLLING_WINDOWS.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+                buckets
+              </h3>
+              <div className="h-48">
+                {rolling.length > 0 ? (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={rolling}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                      <XAxis
+                        dataKey="date"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        stroke="#94a3b8"
+                        fontSize={11}
+                        tickFormatter={(value) => formatInTimeZone(value, 'MMM d', timeZone)}
+                        minTickGap={40}
+                      />
+                      <YAxis stroke="#94a3b8" fontSize={11} domain={[-1, 1]} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#fff' }}
+                        labelFormatter={(label) => formatInTimeZone(Number(label), 'PP', timeZone)}
+                        formatter={(value) => [formatR(value as number | null), 'r']}
+                      />
+                      <ReferenceLine y={0} stroke="#475569" />
+                      <Line type="monotone" dataKey="r" stroke="#3b82f6" dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <p className="text-sm text-slate-500">Fewer than {windowSize} buckets in common.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import type { DataQuality } from '@/lib/dataQuality';
+import { formatInTimeZone } from '@/lib/timezone';
+
+type CoverageBadgeProps = {
+  quality: DataQuality;
+  timeZone: string;
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Below this share of covered time the badge is highlighted
+const LOW_COVERAGE = 0.95;
+
+const formatDuration = (ms: number) => {
+  if (ms >= 2 * DAY) return `${Math.round(ms / DAY)} days`;
+  if (ms >= 2 * HOUR) return `${Math.round(ms / HOUR)} h`;
+  return `${Math.max(1, Math.round(ms / MINUTE))} min`;
+};
+
+const plural = (count: number, word: string) => `${count.toLocaleString()} ${word}${count === 1 ? '' : 's'}`;
+
+// Lines of the badge's tooltip, one per kind of problem found
+const describeQuality = (quality: DataQuality, timeZone: string): string[] => {
+  const lines = [`${plural(quality.points, 'point')}, ${(quality.coverage * 100).toFixed(1)}% of the span covered`];
+  const date = (value: number) => formatInTimeZone(value, 'MMM d, yyyy', timeZone);
+
+  if (quality.gaps.length > 0) {
+    const longest = quality.gaps.reduce((best, gap) => gap.to - gap.from > best.to - best.from ? gap : best);
+    lines.push(`${plural(quality.gaps.length, 'gap')}, longest ${formatDuration(longest.to - longest.from)} `
+      + `(${date(longest.from)} – ${date(longest.to)})`);
+  }
+  if (quality.duplicates > 0) lines.push(plural(quality.duplicates, 'duplicate timestamp'));
+  if (quality.zeroRuns.length > 0) {
+    const points = quality.zeroRuns.reduce((sum, run) => sum + run.points, 0);
+    lines.push(`${plural(quality.zeroRuns.length, 'run')} of zero players (${plural(points, 'point')})`);
+  }
+  quality.samplingChanges.forEach(change => {
+    lines.push(`Sampled every ${formatDuration(change.after)} from ${date(change.date)} `
+      + `(every ${formatDuration(change.before)} before)`);
+  });
+  return lines;
+};
+
+export default function CoverageBadge({ quality, timeZone }: CoverageBadgeProps) {
+  const suspect = quality.coverage < LOW_COVERAGE || quality.duplicates > 0 || quality.zeroRuns.length > 0;
+  const percent = Math.floor(quality.coverage * 1000) / 10;
+
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs tabular-nums ${
+        suspect ? 'bg-amber-500/10 text-amber-400' : 'bg-slate-800 text-slate-400'
+      }`}
+      title={describeQuality(quality, timeZone).join('\n')}
+    >
+      {percent}% coverage
+      {quality.gaps.length > 0 && ` · ${plural(quality.gaps.length, 'gap')}`}
+    </span>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Area, Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import { getDateFormat, REDUCER_LABELS, type ChartRow } from '@/lib/chartData';
+import { isStacked } from '@/lib/chartTypes';
+import type { TimeRange } from '@/lib/dataQuality';
+import type { Preview, PreviewStyle } from '@/lib/preview';
+import { formatAxisValue, formatTooltipValue, rawKey } from '@/lib/scaling';
+import { formatInTimeZone } from '@/lib/timezone';
+
+type EmbedChartProps = {
+  preview: Preview;
+  style: PreviewStyle;
+  // The same comparison in the full app
+  href: string;
+};
+
+// Histories are cached on the server for a while, so polling more often
+// than this would only redraw the same chart
+const REFRESH_MS = 5 * 60 * 1000;
+
+const inSegment = (row: ChartRow, segment: TimeRange) => row.date >= segment.from && row.date <= segment.to;
+
+export default function EmbedChart({ preview, style, href }: EmbedChartProps) {
+  const router = useRouter();
+  const { series, rows, start, end, options, scale } = preview;
+  const { colors } = style;
+  const { chartType, timeZone } = options;
+  const stacked = isStacked(chartType);
+  const dateFormat = getDateFormat(start, end);
+
+  // Re-render on the server now and then so the widget stays current
+  useEffect(() => {
+    const timer = setInterval(() => router.refresh(), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [router]);
+
+  return (
+    <div className="flex flex-col h-screen p-3" style={{ background: colors.background, color: colors.text }}>
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} stackOffset={chartType === 'percent' ? 'expand' : undefined}>
+            <defs>
+              {series.map(game => (
+                <linearGradient key={game.id} id={`embed-color-${game.id}`} x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={game.color} stopOpacity={0.3}/>
+                  <stop offset="95%" stopColor={game.color} stopOpacity={0}/>
+                </linearGradient>
+              ))}
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} vertical={false} />
+            <XAxis
+              dataKey="date"
+              type="number"
+              stroke={colors.muted}
+              fontSize={11}
+              tickFormatter={(value) => formatInTimeZone(value, dateFormat, timeZone)}
+              minTickGap={40}
+              domain={['dataMin', 'dataMax']}
+              padding={chartType === 'bar' ? { left: 16, right: 16 } : undefined}
+            />
+            <YAxis
+              stroke={colors.muted}
+              fontSize={11}
+              width={44}
+              scale={scale === 'log' ? 'log' : 'auto'}
+              domain={chartType === 'percent' ? [0, 1] : scale === 'log' ? ['auto', 'auto'] : [0, 'auto']}
+              allowDataOverflow={scale === 'log'}
+              tickFormatter={(val) => chartType === 'percent' ? `${Math.round(val * 100)}%` : formatAxisValue(val, scale)}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: colors.background, borderColor: colors.grid, color: colors.text }}
+              labelFormatter={(label) => `${formatInTimeZone(label, 'PP', timeZone)} · ${REDUCER_LABELS[options.reducer]}`}
+              formatter={(value, name, item) => formatTooltipValue(Number(value), item.payload?.[rawKey(String(name))], scale)}
+            />
+            {style.legend && <Legend iconType="circle" wrapperStyle={{ fontSize: 12 }} />}
+            {series.flatMap(game => {
+              if (chartType === 'bar') {
+                return [
+                  <Bar key={game.id} name={game.name} dataKey={game.name} fill={game.color} maxBarSize={32} isAnimationActive={false} />,
+                ];
+              }
+              // Lines and areas break at gaps; stacks need every game in every
+              // row, so they bridge them
+              const segments = stacked ? [{ from: -Infinity, to: Infinity }] : game.segments;
+              return segments.map((segment, index) => {
+                const dataKey = segments.length === 1 ? game.name : (row: ChartRow) => inSegment(row, segment) ? row[game.name] : null;
+                return chartType === 'line' ? (
+                  <Line
+                    key={`${game.id}-${index}`}
+                    type="monotone"
+                    name={game.name}
+                    dataKey={dataKey}
+                    stroke={game.color}
+                    strokeWidth={2}
+                    dot={false}
+                    legendType={index === 0 ? undefined : 'none'}
+                    isAnimationActive={false}
+                    connectNulls={true}
+                  />
+                ) : (
+                  <Area
+                    key={`${game.id}-${index}`}
+                    type="monotone"
+                    name={game.name}
+                    dataKey={dataKey}
+                    stackId={stacked ? 'players' : undefined}
+                    stroke={game.color}
+                    fill={stacked ? game.color : `url(#embed-color-${game.id})`}
+                    fillOpacity={stacked ? 0.5 : 1}
+                    strokeWidth={stacked ? 1 : 2}
+                    baseValue={scale === 'log' ? 'dataMin' : undefined}
+                    legendType={index === 0 ? undefined : 'none'}
+                    isAnimationActive={false}
+                    connectNulls={true}
+                  />
+                );
+              });
+            })}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="self-end text-xs hover:underline"
+        style={{ color: colors.muted }}
+      >
+        Steam History Compare ↗
+      </a>
+    </div>
+  );
+}
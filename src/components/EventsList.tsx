@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import type { DetectedEvent } from '@/lib/anomalies';
+import { formatInTimeZone } from '@/lib/timezone';
+
+export type GameEvent = DetectedEvent & {
+  gameId: number;
+  gameName: string;
+  color: string;
+};
+
+type EventsListProps = {
+  events: GameEvent[];
+  highlighted: GameEvent | null;
+  onHighlight: (event: GameEvent | null) => void;
+  timeZone: string;
+};
+
+export default function EventsList({ events, highlighted, onHighlight, timeZone }: EventsListProps) {
+  const sorted = [...events].sort((a, b) => b.date - a.date);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-2xl lg:w-72 lg:h-[500px] flex flex-col">
+      <h2 className="text-sm font-semibold text-white mb-3">
+        Detected events <span className="text-slate-500 font-normal">({events.length})</span>
+      </h2>
+      {sorted.length === 0 ? (
+        <p className="text-sm text-slate-500">No unusual spikes or drops in this range.</p>
+      ) : (
+        <ul className="overflow-y-auto space-y-1 -mx-2">
+          {sorted.map(event => {
+            const active = highlighted?.gameId === event.gameId && highlighted.date === event.date;
+            return (
+              <li
+                key={`${event.gameId}-${event.date}`}
+                onMouseEnter={() => onHighlight(event)}
+                onMouseLeave={() => onHighlight(null)}
+                className={`flex items-start gap-2 px-2 py-1.5 rounded text-sm cursor-default ${active ? 'bg-slate-800' : ''}`}
+              >
+                {event.kind === 'spike'
+                  ? <TrendingUp className="w-4 h-4 mt-0.5 shrink-0 text-green-400" />
+                  : <TrendingDown className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />}
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1.5 text-white">
+                    <span className="inline-block w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: event.color }} />
+                    <span className="truncate">{event.gameName}</span>
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {formatInTimeZone(event.date, 'PP', timeZone)} · {event.count.toLocaleString()} vs ~{event.baseline.toLocaleString()}
+                    {' '}({event.score > 0 ? '+' : ''}{event.score.toFixed(1)}σ)
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
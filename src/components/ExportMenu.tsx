@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { ChartRow } from '@/lib/chartData';
+import { buildChartSvg, downloadBlob, svgToPng } from '@/lib/chartImage';
+import { exportFileName, toCsv, toJson } from '@/lib/export';
+import type { SelectedGame } from '@/lib/types';
+
+type ExportMenuProps = {
+  rows: ChartRow[];
+  games: SelectedGame[];
+  startDate: number;
+  endDate: number;
+  // Element that contains the rendered Recharts <svg>, one per game in the
+  // grid layout
+  chartContainer: React.RefObject<HTMLDivElement | null>;
+  grid: boolean;
+  onError: (message: string) => void;
+};
+
+const FORMATS = [
+  { id: 'csv', label: 'CSV (data)' },
+  { id: 'json', label: 'JSON (data)' },
+  { id: 'png', label: 'PNG (image)' },
+  { id: 'svg', label: 'SVG (image)' },
+] as const;
+
+type Format = typeof FORMATS[number]['id'];
+
+export default function ExportMenu({ rows, games, startDate, endDate, chartContainer, grid, onError }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  const meta = {
+    start: startDate,
+    end: endDate,
+    games: games.map(game => ({ id: game.id, name: game.name })),
+  };
+
+  const exportAs = async (type: Format) => {
+    setOpen(false);
+
+    if (type === 'csv') {
+      downloadBlob(new Blob([toCsv(rows, meta)], { type: 'text/csv' }), exportFileName(meta, 'csv'));
+      return;
+    }
+    if (type === 'json') {
+      downloadBlob(new Blob([toJson(rows, meta)], { type: 'application/json' }), exportFileName(meta, 'json'));
+      return;
+    }
+
+    // Only the chart surfaces themselves, not the legend's icon SVGs
+    const surfaces = Array.from(chartContainer.current?.querySelectorAll<SVGSVGElement>('svg.recharts-surface') ?? [])
+      .filter(surface => !surface.closest('.recharts-legend-wrapper'));
+    if (surfaces.length === 0) {
+      onError('Nothing to export yet.');
+      return;
+    }
+
+    try {
+      // Small multiples are drawn in the order of `games`
+      const panels = surfaces.map((surface, index) => ({ surface, title: grid ? games[index] : undefined }));
+      const image = buildChartSvg(panels, { games, start: startDate, end: endDate });
+      if (type === 'svg') {
+        downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), exportFileName(meta, 'svg'));
+      } else {
+        downloadBlob(await svgToPng(image.svg, image.width, image.height), exportFileName(meta, 'png'));
+      }
+    } catch {
+      onError('Could not export the chart image.');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded px-3 py-1 text-sm text-white transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-40 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-40">
+          {FORMATS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => exportAs(option.id)}
+              className="w-full text-left px-4 py-2 text-sm hover:bg-slate-800 transition-colors border-b border-slate-800 last:border-0"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
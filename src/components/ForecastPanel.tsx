@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { FORECAST_LABELS, type BacktestResult, type ForecastModel, type ForecastPoint } from '@/lib/forecast';
+import { formatInTimeZone } from '@/lib/timezone';
+import type { SelectedGame } from '@/lib/types';
+
+export type GameForecast = {
+  game: SelectedGame;
+  forecast: ForecastPoint[];
+  backtest: BacktestResult | null;
+};
+
+type ForecastPanelProps = {
+  forecasts: GameForecast[];
+  model: ForecastModel;
+  horizon: number;
+  timeZone: string;
+};
+
+export default function ForecastPanel({ forecasts, model, horizon, timeZone }: ForecastPanelProps) {
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl overflow-x-auto">
+      <h2 className="text-sm font-semibold text-white mb-1">
+        Forecast · {FORECAST_LABELS[model]}, {horizon} days
+      </h2>
+      <p className="text-xs text-slate-500 mb-3">
+        Accuracy is measured by refitting on the first 80% of the visible range and predicting the rest (dotted line on the chart).
+      </p>
+      <table className="w-full text-sm text-right">
+        <thead className="text-slate-400 border-b border-slate-800">
+          <tr>
+            <th className="text-left font-medium py-2 pr-4">Game</th>
+            <th className="font-medium py-2 px-3">Projected</th>
+            <th className="font-medium py-2 px-3">95% range</th>
+            <th className="font-medium py-2 px-3" title="Mean absolute percentage error on held-out history">Backtest MAPE</th>
+            <th className="font-medium py-2 pl-3" title="Root mean squared error on held-out history">Backtest RMSE</th>
+          </tr>
+        </thead>
+        <tbody>
+          {forecasts.map(({ game, forecast, backtest }) => {
+            const end = forecast.length > 1 ? forecast[forecast.length - 1] : null;
+            return (
+              <tr key={game.id} className="border-b border-slate-800 last:border-0">
+                <td className="text-left py-2 pr-4 text-white font-medium">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: game.color }} />
+                  {game.name}
+                </td>
+                <td className="py-2 px-3">
+                  {end ? (
+                    <>
+                      {end.value.toLocaleString()}
+                      <span className="block text-xs text-slate-500">{formatInTimeZone(end.date, 'PP', timeZone)}</span>
+                    </>
+                  ) : '—'}
+                </td>
+                <td className="py-2 px-3">
+                  {end ? `${end.lower.toLocaleString()} – ${end.upper.toLocaleString()}` : '—'}
+                </td>
+                <td className="py-2 px-3">{backtest?.mape != null ? `${backtest.mape.toFixed(1)}%` : '—'}</td>
+                <td className="py-2 pl-3">{backtest ? Math.round(backtest.rmse).toLocaleString() : '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {forecasts.some(({ forecast }) => forecast.length === 0) && (
+        <p className="text-xs text-slate-500 mt-2">Games with fewer than three points in range have no forecast.</p>
+      )}
+    </div>
+  );
+}
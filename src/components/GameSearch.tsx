@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useId, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { ApiRequestError, fetchApi } from '@/lib/apiErrors';
+import { parseAppReference, type SearchResult } from '@/lib/search';
+
+const DEBOUNCE_MS = 250;
+const MIN_TERM_LENGTH = 2;
+
+// Appids and store links are looked up whatever their length
+const isSearchable = (term: string) => term.length >= MIN_TERM_LENGTH || parseAppReference(term) !== null;
+
+const describeResult = (game: SearchResult) => [
+  game.comingSoon ? `Coming ${game.releaseDate ?? 'soon'}` : game.releaseDate,
+  game.developers[0],
+  game.genres.slice(0, 2).join(', '),
+].filter(Boolean).join(' · ');
+
+type GameSearchProps = {
+  onSelect: (game: SearchResult) => void;
+  onError: (message: string) => void;
+};
+
+export default function GameSearch({ onSelect, onError }: GameSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  // Term the current results belong to, to tell "no matches" from "not searched yet"
+  const [resultsFor, setResultsFor] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listId = useId();
+
+  // Search once the user pauses typing; a newer term cancels the older request
+  useEffect(() => {
+    const term = query.trim();
+    if (!isSearchable(term)) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const json = await fetchApi<{ items: SearchResult[] }>(
+          `/api/search?term=${encodeURIComponent(term)}`,
+          { signal: controller.signal }
+        );
+        setResults(json.items);
+        setResultsFor(term);
+        setActiveIndex(json.items.length > 0 ? 0 : -1);
+        setOpen(true);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        onError(error instanceof ApiRequestError && error.code === 'rate_limited'
+          ? 'Too many searches, wait a moment and try again.'
+          : 'Search failed.');
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, onError]);
+
+  // Keep the highlighted result visible while moving through a long list
+  useEffect(() => {
+    if (activeIndex >= 0) document.getElementById(`${listId}-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, listId]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    if (!isSearchable(e.target.value.trim())) {
+      setResults([]);
+      setResultsFor('');
+      setSearching(false);
+      setOpen(false);
+    }
+  };
+
+  const select = (game: SearchResult) => {
+    onSelect(game);
+    setQuery('');
+    setResults([]);
+    setResultsFor('');
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        setActiveIndex(index => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (open && results[activeIndex]) select(results[activeIndex]);
+        break;
+      case 'Escape':
+        setOpen(false);
+        break;
+    }
+  };
+
+  const showList = open && resultsFor !== '' && resultsFor === query.trim();
+
+  return (
+    <div className="relative w-full md:w-96 z-50">
+      <div className="relative">
+        <input
+          type="text"
+          role="combobox"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+          value={query}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder="Search games, or paste an appid or store link..."
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg py-2 pl-10 pr-4 focus:ring-2 focus:ring-blue-500 focus:outline-none text-white"
+        />
+        {searching ? (
+          <Loader2 className="absolute left-3 top-2.5 w-4 h-4 text-slate-500 animate-spin" />
+        ) : (
+          <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-500" />
+        )}
+      </div>
+
+      {/* Dropdown Results */}
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute top-full mt-2 w-full bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-h-80 overflow-y-auto"
+        >
+          {results.length === 0 && (
+            <li className="px-4 py-3 text-sm text-slate-500">No games found.</li>
+          )}
+          {results.map((game, index) => (
+            <li
+              key={game.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the list doesn't close before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => select(game)}
+              className={`cursor-pointer px-4 py-3 flex items-center gap-3 transition-colors border-b border-slate-800 last:border-0 ${
+                index === activeIndex ? 'bg-slate-800' : ''
+              }`}
+            >
+              <img src={game.tiny_image} alt="" className="w-8 h-8 rounded object-cover" />
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm font-medium">{game.name}</div>
+                {describeResult(game) && (
+                  <div className="truncate text-xs text-slate-500">{describeResult(game)}</div>
+                )}
+              </div>
+              {game.price && <span className="shrink-0 text-xs text-slate-400">{game.price}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
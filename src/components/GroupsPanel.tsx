@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import type { ChartGroupRef } from '@/lib/chartState';
+import { GROUP_REDUCER_LABELS, GROUP_REDUCERS, type GroupReducer } from '@/lib/groups';
+import { parseAppReference } from '@/lib/search';
+import type { SelectedGame } from '@/lib/types';
+
+type GroupsPanelProps = {
+  groups: ChartGroupRef[];
+  // Games on the chart, offered as members of a new group
+  games: SelectedGame[];
+  // Name of any loaded game, including members that aren't on the chart
+  gameName: (id: number) => string;
+  nextColor: string;
+  onChange: (groups: ChartGroupRef[]) => void;
+};
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export default function GroupsPanel({ groups, games, gameName, nextColor, onChange }: GroupsPanelProps) {
+  const [name, setName] = useState('');
+  const [memberIds, setMemberIds] = useState<Set<number>>(new Set());
+  // Appids or store URLs of members that aren't on the chart
+  const [extra, setExtra] = useState('');
+  const [reducer, setReducer] = useState<GroupReducer>('sum');
+  const [formError, setFormError] = useState('');
+
+  const toggleMember = (id: number) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const updateGroup = (index: number, patch: Partial<ChartGroupRef>) => {
+    onChange(groups.map((group, i) => i === index ? { ...group, ...patch } : group));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const references = extra.split(/[\s,]+/).filter(Boolean);
+    const extraIds = references.map(parseAppReference);
+    if (extraIds.includes(null)) {
+      setFormError('Extra members must be appids or Steam store URLs');
+      return;
+    }
+
+    const appids = [...new Set([...memberIds, ...extraIds.map(Number)])];
+    if (!name.trim() || appids.length === 0) {
+      setFormError('Name the group and pick at least one game');
+      return;
+    }
+
+    onChange([...groups, { name: name.trim(), appids, reducer, color: nextColor, expanded: false }]);
+    setName('');
+    setMemberIds(new Set());
+    setExtra('');
+    setFormError('');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl space-y-4">
+      <h2 className="text-sm font-semibold text-white">Groups</h2>
+
+      {groups.length > 0 && (
+        <ul className="space-y-2">
+          {groups.map((group, index) => (
+            <li key={index} className="text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: group.color || '#94a3b8' }} />
+                <button
+                  onClick={() => updateGroup(index, { expanded: !group.expanded })}
+                  className="flex items-center gap-1 text-white"
+                  title={group.expanded ? 'Hide members on the chart' : 'Show members on the chart'}
+                >
+                  {group.expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  {group.name}
+                </button>
+                <span className="text-xs text-slate-500">
+                  {group.appids.length} {group.appids.length === 1 ? 'game' : 'games'}
+                </span>
+                <select
+                  value={group.reducer}
+                  onChange={(e) => updateGroup(index, { reducer: e.target.value as GroupReducer })}
+                  className={`${inputClass} ml-auto`}
+                >
+                  {GROUP_REDUCERS.map(option => (
+                    <option key={option} value={option}>{GROUP_REDUCER_LABELS[option]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange(groups.filter((_, i) => i !== index))}
+                  className="text-slate-500 hover:text-red-400"
+                  title="Remove group"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {group.expanded && (
+                <div className="mt-1 ml-7 text-xs text-slate-400">
+                  {group.appids.map(gameName).join(', ')}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Group name"
+            maxLength={80}
+            className={`${inputClass} w-48`}
+          />
+          <select value={reducer} onChange={(e) => setReducer(e.target.value as GroupReducer)} className={inputClass}>
+            {GROUP_REDUCERS.map(option => (
+              <option key={option} value={option}>{GROUP_REDUCER_LABELS[option]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={extra}
+            onChange={(e) => setExtra(e.target.value)}
+            placeholder="More appids or store URLs"
+            className={`${inputClass} flex-1 min-w-48`}
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-1 bg-blue-600 hover:bg-blue-500 rounded px-3 py-1 text-sm text-white transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Create
+          </button>
+        </div>
+        {games.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            {games.map(game => (
+              <label key={game.id} className="flex items-center gap-1.5 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={memberIds.has(game.id)}
+                  onChange={() => toggleMember(game.id)}
+                  className="accent-blue-500"
+                />
+                {game.name}
+              </label>
+            ))}
+          </div>
+        )}
+        {formError && <p className="text-xs text-red-400">{formError}</p>}
+      </form>
+    </div>
+  );
+}
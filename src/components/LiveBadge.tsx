@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import { formatInTimeZone } from '@/lib/timezone';
+
+// Latest live reading for a game; a failed poll keeps the last good count
+// and records the error instead of reporting zero players
+export type LiveReading = {
+  count: number | null;
+  at: number;
+  error?: string;
+};
+
+type LiveBadgeProps = {
+  reading: LiveReading | undefined;
+  timeZone: string;
+};
+
+export default function LiveBadge({ reading, timeZone }: LiveBadgeProps) {
+  const failed = reading?.error !== undefined;
+  const title = reading?.error
+    ?? (reading ? `Players online at ${formatInTimeZone(reading.at, 'HH:mm', timeZone)}` : 'Waiting for the first reading');
+
+  return (
+    <span
+      className={`flex items-center gap-1.5 rounded-full px-2 py-0.5 text-xs tabular-nums ${
+        failed ? 'bg-slate-800 text-slate-500' : 'bg-green-500/10 text-green-400'
+      }`}
+      title={title}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${failed ? 'bg-slate-500' : 'bg-green-400 animate-pulse'}`} />
+      {reading?.count != null ? reading.count.toLocaleString() : '—'}
+    </span>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { HEATMAP_WEEKDAYS } from '@/lib/seasonality';
+import type { GameSummary } from '@/lib/stats';
+import { resolveTimeZone } from '@/lib/timezone';
+import type { SelectedGame } from '@/lib/types';
+
+type SeasonalityHeatmapProps = {
+  games: SelectedGame[];
+  // Per game id: undefined while loading, null when it failed
+  summaries: Record<number, GameSummary | null | undefined>;
+  timeZone: string;
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function SeasonalityHeatmap({ games, summaries, timeZone }: SeasonalityHeatmapProps) {
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl space-y-6">
+      <h2 className="text-sm font-semibold text-white">
+        Average players by weekday and hour
+        <span className="text-slate-500 font-normal"> · {resolveTimeZone(timeZone)}</span>
+      </h2>
+      {games.map(game => {
+        const summary = summaries[game.id];
+        const heatmap = summary?.heatmap;
+        const spread = heatmap ? heatmap.max - heatmap.min || 1 : 1;
+
+        return (
+          <div key={game.id} className="overflow-x-auto">
+            <div className="flex items-center gap-2 text-sm text-white mb-2">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: game.color }} />
+              {game.name}
+            </div>
+            {!heatmap ? (
+              <p className="text-xs text-slate-500">{summary === undefined ? 'Loading…' : 'The heatmap could not be loaded.'}</p>
+            ) : heatmap.samples === 0 ? (
+              <p className="text-xs text-slate-500">No hourly data in this range.</p>
+            ) : (
+              <table className="text-[10px] text-slate-500 border-separate border-spacing-0.5">
+                <thead>
+                  <tr>
+                    <th />
+                    {HOURS.map(hour => (
+                      <th key={hour} className="font-normal w-6">{hour % 3 === 0 ? hour : ''}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {heatmap.cells.map((row, weekday) => (
+                    <tr key={HEATMAP_WEEKDAYS[weekday]}>
+                      <th className="font-normal text-right pr-1">{HEATMAP_WEEKDAYS[weekday]}</th>
+                      {row.map((value, hour) => (
+                        <td
+                          key={hour}
+                          className="w-6 h-5 rounded-sm"
+                          title={value === null
+                            ? `${HEATMAP_WEEKDAYS[weekday]} ${hour}:00 · no data`
+                            : `${HEATMAP_WEEKDAYS[weekday]} ${hour}:00 · ${Math.round(value).toLocaleString()} players`}
+                          style={value === null
+                            ? { backgroundColor: '#1e293b' }
+                            : { backgroundColor: game.color, opacity: 0.15 + 0.85 * ((value - heatmap.min) / spread) }}
+                        />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import type { GameSummary, PeakStat } from '@/lib/stats';
+import { formatInTimeZone } from '@/lib/timezone';
+import type { SelectedGame } from '@/lib/types';
+
+type StatsPanelProps = {
+  games: SelectedGame[];
+  // Per game id: undefined while loading, null when it failed
+  summaries: Record<number, GameSummary | null | undefined>;
+  startDate: number;
+  endDate: number;
+  timeZone: string;
+};
+
+const formatCount = (value: number | null) =>
+  value === null ? '—' : Math.round(value).toLocaleString();
+
+const formatPeak = (peak: PeakStat | null, timeZone: string) =>
+  peak === null ? '—' : (
+    <>
+      {peak.count.toLocaleString()}
+      <span className="block text-xs text-slate-500">{formatInTimeZone(peak.date, 'PP', timeZone)}</span>
+    </>
+  );
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return <span className="text-slate-500">—</span>;
+  const color = value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-slate-300';
+  return <span className={color}>{`${value > 0 ? '+' : ''}${value.toFixed(1)}%`}</span>;
+};
+
+export default function StatsPanel({ games, summaries, startDate, endDate, timeZone }: StatsPanelProps) {
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 md:p-6 shadow-2xl overflow-x-auto">
+      <h2 className="text-sm font-semibold text-white mb-3">
+        Statistics · {formatInTimeZone(startDate, 'PP', timeZone)} – {formatInTimeZone(endDate, 'PP', timeZone)}
+      </h2>
+      <table className="w-full text-sm text-right">
+        <thead className="text-slate-400 border-b border-slate-800">
+          <tr>
+            <th className="text-left font-medium py-2 pr-4">Game</th>
+            <th className="font-medium py-2 px-3">All-time peak</th>
+            <th className="font-medium py-2 px-3">Peak in range</th>
+            <th className="font-medium py-2 px-3">Average</th>
+            <th className="font-medium py-2 px-3">Median</th>
+            <th className="font-medium py-2 px-3">Change</th>
+            <th className="font-medium py-2 px-3">Month over month</th>
+            <th className="font-medium py-2 pl-3" title="Average players after the in-range peak, relative to that peak">
+              Retention after peak
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {games.map(game => {
+            const summary = summaries[game.id];
+            const name = (
+              <td className="text-left py-2 pr-4 text-white font-medium">
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: game.color }} />
+                {game.name}
+              </td>
+            );
+            if (!summary) {
+              return (
+                <tr key={game.id} className="border-b border-slate-800 last:border-0 align-top">
+                  {name}
+                  <td colSpan={7} className="py-2 text-left text-slate-500">
+                    {summary === undefined ? 'Loading…' : 'Statistics could not be loaded.'}
+                  </td>
+                </tr>
+              );
+            }
+
+            const { stats } = summary;
+            return (
+              <tr key={game.id} className="border-b border-slate-800 last:border-0 align-top">
+                {name}
+                <td className="py-2 px-3">{formatPeak(stats.allTimePeak, timeZone)}</td>
+                <td className="py-2 px-3">{formatPeak(stats.rangePeak, timeZone)}</td>
+                <td className="py-2 px-3">{formatCount(stats.average)}</td>
+                <td className="py-2 px-3">{formatCount(stats.median)}</td>
+                <td className="py-2 px-3">{formatPercent(stats.change)}</td>
+                <td className="py-2 px-3">{formatPercent(stats.monthOverMonth)}</td>
+                <td className="py-2 pl-3">
+                  {stats.retentionAfterPeak === null ? '—' : `${stats.retentionAfterPeak.toFixed(1)}%`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { checkStores } = await import('@/lib/store');
+  try {
+    await checkStores();
+  } catch (error) {
+    console.error(`Storage is misconfigured: ${error instanceof Error ? error.message : error}`);
+    throw error;
+  }
+}
@@ -0,0 +1,158 @@
+import { getAlertState, listAlertRules, setAlertState } from './alertStore';
+import { describeAlert, type AlertEvent, type AlertRule } from './alerts';
+import { getHistory, type TaskScheduler } from './historyCache';
+import { BATCH_CONCURRENCY, runWithConcurrency } from './historyBatch';
+import { fetchCurrentPlayers } from './steamApi';
+import { fetchAppDetails } from './steamStore';
+import type { HistoricalPoint } from './types';
+import { deliverAlert } from './webhooks';
+
+export type EvaluateResult = {
+  evaluated: number;
+  fired: { id: string; appid: number; message: string }[];
+  // Rules that couldn't be checked this time, e.g. no count a day ago
+  skipped: { id: string; appid: number; reason: string }[];
+  failed: { id: string; appid: number; error: string }[];
+};
+
+// The newest count for a game and, when history reaches back far enough,
+// the count a day before it
+type Reading = {
+  value: number;
+  at: number;
+  baseline?: number;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How far the history point used as "a day ago" may be from exactly 24h
+const BASELINE_TOLERANCE_MS = 6 * 60 * 60 * 1000;
+
+const findBaseline = (data: HistoricalPoint[], at: number): number | undefined => {
+  const target = at - DAY;
+  const before = data.filter(point => point.date <= target);
+  const closest = before.reduce<HistoricalPoint | undefined>(
+    (best, point) => (!best || point.date > best.date ? point : best),
+    undefined
+  );
+  return closest && target - closest.date <= BASELINE_TOLERANCE_MS ? closest.count : undefined;
+};
+
+// Prefer the live count; fall back to the newest history point when the
+// players endpoint fails. When both fail the rules are not evaluated at all,
+// a missing count is never treated as zero.
+const readGame = async (appid: number, schedule?: TaskScheduler): Promise<Reading> => {
+  const [live, history] = await Promise.allSettled([
+    fetchCurrentPlayers(String(appid)),
+    getHistory(String(appid), schedule),
+  ]);
+  const data = history.status === 'fulfilled' ? history.value.data : [];
+  const latest = data[data.length - 1];
+
+  if (live.status === 'fulfilled') {
+    const at = Date.now();
+    return { value: live.value, at, baseline: findBaseline(data, at) };
+  }
+  if (latest) return { value: latest.count, at: latest.date, baseline: findBaseline(data, latest.date) };
+  throw live.reason;
+};
+
+// Whether the rule's condition holds, or null when it can't be decided
+const check = (rule: AlertRule, reading: Reading): { met: boolean; changePercent?: number } | null => {
+  switch (rule.condition) {
+    case 'above':
+      return { met: reading.value > rule.threshold };
+    case 'below':
+      return { met: reading.value < rule.threshold };
+    case 'change': {
+      if (!reading.baseline) return null;
+      const changePercent = ((reading.value - reading.baseline) / reading.baseline) * 100;
+      return { met: Math.abs(changePercent) >= rule.threshold, changePercent };
+    }
+  }
+};
+
+const gameName = (appid: number) =>
+  fetchAppDetails(String(appid)).then(details => details.name, () => `App ${appid}`);
+
+// Check every enabled rule against fresh counts. A rule fires when its
+// condition starts to hold and it is out of its cooldown; while the
+// condition keeps holding it stays quiet. Failed deliveries are retried on
+// the next run.
+export const evaluateAlerts = async (schedule?: TaskScheduler): Promise<EvaluateResult> => {
+  const rules = (await listAlertRules()).filter(rule => rule.enabled);
+  const result: EvaluateResult = { evaluated: 0, fired: [], skipped: [], failed: [] };
+  const appids = [...new Set(rules.map(rule => rule.appid))];
+
+  await runWithConcurrency(appids, BATCH_CONCURRENCY, async appid => {
+    const appRules = rules.filter(rule => rule.appid === appid);
+
+    let reading: Reading;
+    try {
+      reading = await readGame(appid, schedule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      appRules.forEach(rule => result.failed.push({ id: rule.id, appid, error: `No player count: ${message}` }));
+      return;
+    }
+
+    let name: string | undefined;
+    for (const rule of appRules) {
+      const outcome = check(rule, reading);
+      if (!outcome) {
+        result.skipped.push({ id: rule.id, appid, reason: 'No player count from a day earlier' });
+        continue;
+      }
+
+      result.evaluated++;
+      const now = Date.now();
+      const state = await getAlertState(rule.id);
+      const next = { ...state, active: outcome.met, lastValue: reading.value, lastEvaluatedAt: now };
+      const coolingDown = state.lastFiredAt !== null && now - state.lastFiredAt < rule.cooldownMinutes * 60 * 1000;
+
+      if (outcome.met && !state.active && !coolingDown) {
+        name ??= await gameName(appid);
+        const event: AlertEvent = {
+          rule,
+          gameName: name,
+          value: reading.value,
+          ...(rule.condition === 'change' ? { baseline: reading.baseline, changePercent: outcome.changePercent } : {}),
+          triggeredAt: now,
+        };
+
+        try {
+          await deliverAlert(event);
+          next.lastFiredAt = now;
+          result.fired.push({ id: rule.id, appid, message: describeAlert(event) });
+        } catch (error) {
+          // Leave the rule inactive so the next run tries again
+          next.active = false;
+          result.failed.push({ id: rule.id, appid, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      await setAlertState(rule.id, next);
+    }
+  });
+
+  return result;
+};
+
+// Send a sample alert for the rule with the current count, whatever its
+// condition and cooldown, to check the webhook is wired up
+export const sendTestAlert = async (rule: AlertRule): Promise<AlertEvent> => {
+  const reading = await readGame(rule.appid);
+  const event: AlertEvent = {
+    rule,
+    gameName: await gameName(rule.appid),
+    value: reading.value,
+    ...(reading.baseline ? {
+      baseline: reading.baseline,
+      changePercent: ((reading.value - reading.baseline) / reading.baseline) * 100,
+    } : {}),
+    triggeredAt: Date.now(),
+    test: true,
+  };
+  await deliverAlert(event);
+  return event;
+};
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { getStore } from './store';
+import type { AlertRule, AlertRuleInput } from './alerts';
+
+const PREFIX = 'alert:';
+const STATE_PREFIX = 'alert-state:';
+
+// Evaluation memory of a rule, kept apart from the rule so edits don't
+// reset it by accident
+export type AlertState = {
+  // The condition held at the last evaluation; a rule fires only when this
+  // flips from false to true, so one crossing gives one alert
+  active: boolean;
+  lastFiredAt: number | null;
+  lastValue: number | null;
+  lastEvaluatedAt: number | null;
+};
+
+export const INITIAL_ALERT_STATE: AlertState = {
+  active: false,
+  lastFiredAt: null,
+  lastValue: null,
+  lastEvaluatedAt: null,
+};
+
+export const listAlertRules = async (appids?: number[]): Promise<AlertRule[]> => {
+  const store = getStore();
+  const keys = await store.keys(PREFIX);
+  const rules = await Promise.all(keys.map(key => store.get<AlertRule>(key)));
+
+  return rules
+    .filter((rule): rule is AlertRule => rule !== undefined && (!appids || appids.includes(rule.appid)))
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getAlertRule = (id: string) => getStore().get<AlertRule>(`${PREFIX}${id}`);
+
+export const createAlertRule = async (input: AlertRuleInput): Promise<AlertRule> => {
+  const rule: AlertRule = { ...input, id: randomUUID(), createdAt: Date.now() };
+  await getStore().set(`${PREFIX}${rule.id}`, rule);
+  return rule;
+};
+
+// Returns undefined when no rule has that id. Changing what the rule
+// watches starts it over, so the new condition can fire right away.
+export const updateAlertRule = async (id: string, changes: Partial<AlertRuleInput>): Promise<AlertRule | undefined> => {
+  const existing = await getAlertRule(id);
+  if (!existing) return undefined;
+
+  const updated: AlertRule = { ...existing, ...changes, id };
+  await getStore().set(`${PREFIX}${id}`, updated);
+  if (changes.appid !== undefined || changes.condition !== undefined || changes.threshold !== undefined) {
+    await getStore().delete(`${STATE_PREFIX}${id}`);
+  }
+  return updated;
+};
+
+export const deleteAlertRule = async (id: string): Promise<boolean> => {
+  const existing = await getAlertRule(id);
+  if (!existing) return false;
+
+  await getStore().delete(`${PREFIX}${id}`);
+  await getStore().delete(`${STATE_PREFIX}${id}`);
+  return true;
+};
+
+export const getAlertState = async (id: string): Promise<AlertState> =>
+  (await getStore().get<AlertState>(`${STATE_PREFIX}${id}`)) ?? INITIAL_ALERT_STATE;
+
+export const setAlertState = (id: string, state: AlertState) => getStore().set(`${STATE_PREFIX}${id}`, state);
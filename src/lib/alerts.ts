@@ -0,0 +1,223 @@
+// Shared alert rule shapes and validation, safe to import from the client
+
+// above/below compare the live player count with `threshold`; change fires
+// when the count moved by at least `threshold` percent over the last day
+export type AlertCondition = 'above' | 'below' | 'change';
+
+export const ALERT_CONDITIONS: AlertCondition[] = ['above', 'below', 'change'];
+
+// Body sent to the webhook: our own JSON, or what Discord and Slack
+// incoming webhooks expect
+export type WebhookFormat = 'generic' | 'discord' | 'slack';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['generic', 'discord', 'slack'];
+
+export type AlertRule = {
+  id: string;
+  appid: number;
+  condition: AlertCondition;
+  threshold: number;
+  webhookUrl: string;
+  format: WebhookFormat;
+  // Minimum time between two deliveries of this rule
+  cooldownMinutes: number;
+  enabled: boolean;
+  createdAt: number;
+};
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt'>;
+
+// What a rule saw when it fired
+export type AlertEvent = {
+  rule: AlertRule;
+  gameName: string;
+  value: number;
+  // Count a day earlier, for change rules
+  baseline?: number;
+  changePercent?: number;
+  triggeredAt: number;
+  // Sent by /api/alerts/<id>/test rather than a real crossing
+  test?: boolean;
+};
+
+type ValidationResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+
+// Webhooks may not reach into the server's own network, such as cloud
+// metadata at 169.254.169.254 or services bound to localhost. Set
+// ALERT_ALLOW_PRIVATE_WEBHOOKS=1 to lift this when testing locally.
+export const allowsPrivateWebhooks = () => process.env.ALERT_ALLOW_PRIVATE_WEBHOOKS === '1';
+
+// Special-purpose IPv4 ranges a webhook has no business reaching: the
+// unspecified, private, shared (carrier-grade NAT), loopback, link-local,
+// protocol, documentation, benchmarking, multicast and reserved blocks
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const ipv4ToNumber = (address: string) => address.split('.').reduce((value, part) => value * 256 + Number(part), 0);
+
+const isPrivateIpv4 = (address: string) => {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+};
+
+// The eight 16-bit groups of an IPv6 address, including ones ending in a
+// dotted IPv4 address, or null when it isn't one
+const parseIpv6 = (address: string): number[] | null => {
+  let text = address.replace(/%.*$/, '');
+  const dotted = /\d+\.\d+\.\d+\.\d+$/.exec(text);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[0]);
+    text = `${text.slice(0, dotted.index)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const groups = (part: string) => (part ? part.split(':') : []).map(group => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN));
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const result = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...tail];
+  return result.some(Number.isNaN) ? null : result;
+};
+
+const embeddedIpv4 = (high: number, low: number) => [high >> 8, high & 255, low >> 8, low & 255].join('.');
+
+// Unique local (fc00::/7), link-local (fe80::/10), site-local (fec0::/10),
+// multicast, documentation, Teredo and discard addresses, and addresses
+// carrying an IPv4 address that is private: IPv4-mapped and -compatible
+// (which covers :: and ::1), NAT64 and 6to4. Anything unreadable counts as
+// private.
+const isPrivateIpv6 = (address: string) => {
+  const groups = parseIpv6(address);
+  if (!groups) return true;
+  const [first, second] = groups;
+  const zeroUpTo = (end: number, start = 0) => groups.slice(start, end).every(group => group === 0);
+
+  if (zeroUpTo(5) && groups[5] === 0xffff) return isPrivateIpv4(embeddedIpv4(groups[6], groups[7]));
+  if (zeroUpTo(4) && groups[4] === 0xffff && groups[5] === 0) return isPrivateIpv4(embeddedIpv4(groups[6], groups[7]));
+  if (zeroUpTo(6)) return isPrivateIpv4(embeddedIpv4(groups[6], groups[7]));
+  if (first === 0x64 && second === 0xff9b) {
+    return !zeroUpTo(6, 2) || isPrivateIpv4(embeddedIpv4(groups[6], groups[7]));
+  }
+  if (first === 0x2002) return isPrivateIpv4(embeddedIpv4(groups[1], groups[2]));
+
+  return (first & 0xfe00) === 0xfc00
+    || (first & 0xffc0) === 0xfe80
+    || (first & 0xffc0) === 0xfec0
+    || (first & 0xff00) === 0xff00
+    || (first === 0x2001 && (second === 0 || second === 0xdb8))
+    || (first === 0x100 && zeroUpTo(4, 1));
+};
+
+// Whether a hostname or IP address (as in URL.hostname or from a DNS
+// lookup) points at localhost or a private, link-local or shared network
+export const isPrivateHost = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return isPrivateIpv4(host);
+  if (host.includes(':')) return isPrivateIpv6(host);
+  return false;
+};
+
+const isWebhookUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol, hostname } = new URL(value);
+    return (protocol === 'http:' || protocol === 'https:') && (allowsPrivateWebhooks() || !isPrivateHost(hostname));
+  } catch {
+    return false;
+  }
+};
+
+// Check an untrusted request body. With `partial`, missing fields are
+// allowed so the same rules cover updates; otherwise format, cooldown and
+// enabled fall back to their defaults.
+export function validateAlertInput(body: unknown, partial: true): ValidationResult<Partial<AlertRuleInput>>;
+export function validateAlertInput(body: unknown, partial?: false): ValidationResult<AlertRuleInput>;
+export function validateAlertInput(body: unknown, partial = false): ValidationResult<Partial<AlertRuleInput>> {
+  if (typeof body !== 'object' || body === null) return { error: 'Body must be a JSON object' };
+  const input = body as Record<string, unknown>;
+  const value: Partial<AlertRuleInput> = partial
+    ? {}
+    : { format: 'generic', cooldownMinutes: DEFAULT_COOLDOWN_MINUTES, enabled: true };
+
+  if (input.appid !== undefined || !partial) {
+    if (!Number.isInteger(input.appid) || (input.appid as number) <= 0) return { error: 'appid must be a positive integer' };
+    value.appid = input.appid as number;
+  }
+  if (input.condition !== undefined || !partial) {
+    if (!ALERT_CONDITIONS.includes(input.condition as AlertCondition)) {
+      return { error: `condition must be one of ${ALERT_CONDITIONS.join(', ')}` };
+    }
+    value.condition = input.condition as AlertCondition;
+  }
+  if (input.threshold !== undefined || !partial) {
+    if (typeof input.threshold !== 'number' || !Number.isFinite(input.threshold) || input.threshold < 0) {
+      return { error: 'threshold must be a non-negative number' };
+    }
+    value.threshold = input.threshold;
+  }
+  if (input.webhookUrl !== undefined || !partial) {
+    if (!isWebhookUrl(input.webhookUrl)) return { error: 'webhookUrl must be a public http(s) URL' };
+    value.webhookUrl = input.webhookUrl;
+  }
+  if (input.format !== undefined) {
+    if (!WEBHOOK_FORMATS.includes(input.format as WebhookFormat)) {
+      return { error: `format must be one of ${WEBHOOK_FORMATS.join(', ')}` };
+    }
+    value.format = input.format as WebhookFormat;
+  }
+  if (input.cooldownMinutes !== undefined) {
+    const cooldown = input.cooldownMinutes;
+    if (typeof cooldown !== 'number' || !Number.isFinite(cooldown) || cooldown < 0 || cooldown > MAX_COOLDOWN_MINUTES) {
+      return { error: `cooldownMinutes must be between 0 and ${MAX_COOLDOWN_MINUTES}` };
+    }
+    value.cooldownMinutes = cooldown;
+  }
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') return { error: 'enabled must be true or false' };
+    value.enabled = input.enabled;
+  }
+
+  return { value };
+}
+
+// One-line summary used by every payload format
+export const describeAlert = ({ rule, gameName, value, changePercent, test }: AlertEvent): string => {
+  const count = value.toLocaleString('en-US');
+  const prefix = test ? '[Test] ' : '';
+
+  switch (rule.condition) {
+    case 'above':
+      return `${prefix}${gameName} is above ${rule.threshold.toLocaleString('en-US')} players (${count} now)`;
+    case 'below':
+      return `${prefix}${gameName} is below ${rule.threshold.toLocaleString('en-US')} players (${count} now)`;
+    case 'change':
+      // Test alerts can go out before there is a day of history to compare with
+      return changePercent === undefined
+        ? `${prefix}${gameName} has ${count} players`
+        : `${prefix}${gameName} ${changePercent >= 0 ? 'rose' : 'fell'} ${Math.abs(changePercent).toFixed(1)}% in a day (${count} now)`;
+  }
+};
@@ -0,0 +1,67 @@
+import { aggregateData, mergeSeries, DEFAULT_AGGREGATION, type AggregationOptions, type ChartRow, type SeriesSource } from './chartData';
+
+// X axis mode: calendar time, or time since each game's launch
+export type AlignMode = 'calendar' | 'days' | 'weeks';
+
+export const ALIGN_MODES: AlignMode[] = ['calendar', 'days', 'weeks'];
+
+export const ALIGN_LABELS: Record<AlignMode, string> = {
+  calendar: 'Calendar date',
+  days: 'Days since launch',
+  weeks: 'Weeks since launch',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const UNIT_MS: Record<Exclude<AlignMode, 'calendar'>, number> = {
+  days: DAY,
+  weeks: 7 * DAY,
+};
+
+export type AlignedSource = SeriesSource & {
+  // User-entered release date; the first data point is used when missing
+  release?: number;
+};
+
+// Row key holding the real calendar date of a game's point in aligned rows
+export const calendarKey = (name: string) => `${name} (date)`;
+
+// Each game's launch: the entered release date, or its first data point
+export const getLaunchDate = (game: AlignedSource): number | null =>
+  game.release ?? (game.data.length > 0 ? game.data.reduce((first, point) => Math.min(first, point.date), Infinity) : null);
+
+// Line every game up at its launch and bucket by days or weeks since then.
+// `date` in the returned rows is the offset (day/week number), and each game
+// carries the bucket's calendar start under calendarKey(name).
+export const processAlignedData = (
+  games: AlignedSource[],
+  mode: Exclude<AlignMode, 'calendar'>,
+  { reducer }: Pick<AggregationOptions, 'reducer'> = DEFAULT_AGGREGATION
+): ChartRow[] => {
+  const unitMs = UNIT_MS[mode];
+
+  const aggregatedGames = games.flatMap(game => {
+    const launch = getLaunchDate(game);
+    if (launch === null) return [];
+
+    const shifted = game.data.map(point => ({ date: point.date - launch, count: point.count }));
+    const aggregatedData = aggregateData(shifted, unitMs, reducer).map(point => ({
+      ...point,
+      date: Math.round(point.date / unitMs),
+    }));
+
+    return [{ name: game.name, launch, aggregatedData }];
+  });
+
+  const rows = mergeSeries(aggregatedGames);
+
+  // Remember the real date behind each offset for the tooltip
+  aggregatedGames.forEach(game => {
+    const offsets = new Set(game.aggregatedData.map(point => point.date));
+    rows.forEach(row => {
+      if (offsets.has(row.date)) row[calendarKey(game.name)] = game.launch + row.date * unitMs;
+    });
+  });
+
+  return rows;
+};
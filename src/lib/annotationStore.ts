@@ -0,0 +1,42 @@
+import { randomUUID } from 'crypto';
+import { getStore } from './store';
+import type { Annotation, AnnotationInput } from './annotations';
+
+const PREFIX = 'annotation:';
+
+export const listAnnotations = async (appids?: number[]): Promise<Annotation[]> => {
+  const store = getStore();
+  const keys = await store.keys(PREFIX);
+  const annotations = await Promise.all(keys.map(key => store.get<Annotation>(key)));
+
+  return annotations
+    .filter((annotation): annotation is Annotation =>
+      annotation !== undefined && (!appids || appids.includes(annotation.appid)))
+    .sort((a, b) => a.start - b.start);
+};
+
+export const getAnnotation = (id: string) => getStore().get<Annotation>(`${PREFIX}${id}`);
+
+export const createAnnotation = async (input: AnnotationInput): Promise<Annotation> => {
+  const annotation: Annotation = { ...input, id: randomUUID(), createdAt: Date.now() };
+  await getStore().set(`${PREFIX}${annotation.id}`, annotation);
+  return annotation;
+};
+
+// Returns undefined when no annotation has that id
+export const updateAnnotation = async (id: string, changes: Partial<AnnotationInput>): Promise<Annotation | undefined> => {
+  const existing = await getAnnotation(id);
+  if (!existing) return undefined;
+
+  const updated: Annotation = { ...existing, ...changes, id };
+  await getStore().set(`${PREFIX}${id}`, updated);
+  return updated;
+};
+
+export const deleteAnnotation = async (id: string): Promise<boolean> => {
+  const existing = await getAnnotation(id);
+  if (!existing) return false;
+
+  await getStore().delete(`${PREFIX}${id}`);
+  return true;
+};
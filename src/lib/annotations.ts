@@ -0,0 +1,82 @@
+// Shared annotation shapes and validation, safe to import from the client
+
+export type AnnotationCategory = 'launch' | 'update' | 'sale' | 'event' | 'business' | 'other';
+
+export const ANNOTATION_CATEGORIES: AnnotationCategory[] = ['launch', 'update', 'sale', 'event', 'business', 'other'];
+
+export const ANNOTATION_CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  launch: 'Launch',
+  update: 'Update',
+  sale: 'Sale',
+  event: 'Event',
+  business: 'Business',
+  other: 'Other',
+};
+
+export const ANNOTATION_CATEGORY_COLORS: Record<AnnotationCategory, string> = {
+  launch: '#38bdf8',
+  update: '#a78bfa',
+  sale: '#facc15',
+  event: '#fb923c',
+  business: '#f472b6',
+  other: '#94a3b8',
+};
+
+export type Annotation = {
+  id: string;
+  appid: number;
+  // A single moment, or a range when `end` is set
+  start: number;
+  end?: number;
+  label: string;
+  category: AnnotationCategory;
+  createdAt: number;
+};
+
+export type AnnotationInput = Omit<Annotation, 'id' | 'createdAt'>;
+
+type ValidationResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+const MAX_LABEL_LENGTH = 120;
+
+// Check an untrusted request body. With `partial`, missing fields are
+// allowed so the same rules cover updates.
+export function validateAnnotationInput(body: unknown, partial: true): ValidationResult<Partial<AnnotationInput>>;
+export function validateAnnotationInput(body: unknown, partial?: false): ValidationResult<AnnotationInput>;
+export function validateAnnotationInput(body: unknown, partial = false): ValidationResult<Partial<AnnotationInput>> {
+  if (typeof body !== 'object' || body === null) return { error: 'Body must be a JSON object' };
+  const input = body as Record<string, unknown>;
+  const value: Partial<AnnotationInput> = {};
+
+  if (input.appid !== undefined || !partial) {
+    if (!Number.isInteger(input.appid) || (input.appid as number) <= 0) return { error: 'appid must be a positive integer' };
+    value.appid = input.appid as number;
+  }
+  if (input.start !== undefined || !partial) {
+    if (typeof input.start !== 'number' || !Number.isFinite(input.start)) return { error: 'start must be a timestamp in milliseconds' };
+    value.start = input.start;
+  }
+  if (input.end === null) {
+    // Explicit null turns a range back into a single moment
+    value.end = undefined;
+  } else if (input.end !== undefined) {
+    if (typeof input.end !== 'number' || !Number.isFinite(input.end)) return { error: 'end must be a timestamp in milliseconds' };
+    value.end = input.end;
+  }
+  if (value.start !== undefined && value.end !== undefined && value.end < value.start) {
+    return { error: 'end must not be before start' };
+  }
+  if (input.label !== undefined || !partial) {
+    if (typeof input.label !== 'string' || input.label.trim() === '') return { error: 'label is required' };
+    if (input.label.length > MAX_LABEL_LENGTH) return { error: `label must be at most ${MAX_LABEL_LENGTH} characters` };
+    value.label = input.label.trim();
+  }
+  if (input.category !== undefined || !partial) {
+    if (!ANNOTATION_CATEGORIES.includes(input.category as AnnotationCategory)) {
+      return { error: `category must be one of ${ANNOTATION_CATEGORIES.join(', ')}` };
+    }
+    value.category = input.category as AnnotationCategory;
+  }
+
+  return { value };
+}
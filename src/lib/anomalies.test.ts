@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { detectEvents, SENSITIVITY_OPTIONS } from './anomalies';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// A month of daily counts wobbling between 1000 and 1010, with overrides
+const series = (overrides: Record<number, number> = {}) =>
+  Array.from({ length: 30 }, (_, i) => ({ date: START + i * DAY, count: overrides[i] ?? (i % 2 === 0 ? 1000 : 1010) }));
+
+const medium = SENSITIVITY_OPTIONS.medium;
+
+describe('detectEvents', () => {
+  it('finds nothing in ordinary noise', () => {
+    expect(detectEvents(series(), medium)).toEqual([]);
+  });
+
+  it('flags a spike against the rolling baseline', () => {
+    const events = detectEvents(series({ 20: 2000 }), medium);
+
+    expect(events).toEqual([
+      { date: START + 20 * DAY, count: 2000, kind: 'spike', baseline: 1005, score: expect.any(Number) },
+    ]);
+    expect(events[0].score).toBeGreaterThan(medium.threshold);
+  });
+
+  it('flags a drop with a negative score', () => {
+    const events = detectEvents(series({ 20: 100 }), medium);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ date: START + 20 * DAY, kind: 'drop' });
+    expect(events[0].score).toBeLessThan(-medium.threshold);
+  });
+
+  it('reports a run of flagged points once, at its most extreme point', () => {
+    const events = detectEvents(series({ 20: 1100, 21: 1600 }), medium);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ date: START + 21 * DAY, count: 1600, kind: 'spike' });
+  });
+
+  it('reports a spike and a drop separately', () => {
+    const events = detectEvents(series({ 16: 2000, 24: 100 }), medium);
+
+    expect(events.map(event => [event.kind, event.date])).toEqual([
+      ['spike', START + 16 * DAY],
+      ['drop', START + 24 * DAY],
+    ]);
+  });
+
+  it('needs a larger move at lower sensitivity', () => {
+    const points = series({ 20: 1035 });
+
+    expect(detectEvents(points, SENSITIVITY_OPTIONS.high)).toHaveLength(1);
+    expect(detectEvents(points, SENSITIVITY_OPTIONS.low)).toEqual([]);
+  });
+
+  it('does not flag small wiggles on a perfectly flat series', () => {
+    const points = series().map((point, i) => ({ ...point, count: i === 20 ? 1005 : 1000 }));
+
+    expect(detectEvents(points, medium)).toEqual([]);
+  });
+
+  it('sorts its input and skips series shorter than the window', () => {
+    const points = series({ 20: 2000 });
+
+    expect(detectEvents([...points].reverse(), medium)).toEqual(detectEvents(points, medium));
+    expect(detectEvents(points.slice(0, medium.window), medium)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { HistoricalPoint } from './types';
+
+export type EventKind = 'spike' | 'drop';
+
+export type DetectedEvent = {
+  date: number;
+  count: number;
+  kind: EventKind;
+  // Rolling mean of the window before the event
+  baseline: number;
+  // Standard deviations away from the baseline (signed)
+  score: number;
+};
+
+export type DetectionOptions = {
+  // Number of preceding points the baseline is computed from
+  window: number;
+  // Minimum |z-score| for a point to be flagged
+  threshold: number;
+};
+
+// Preset sensitivities offered in the UI; 'off' disables detection
+export type Sensitivity = 'off' | 'low' | 'medium' | 'high';
+
+export const SENSITIVITIES: Sensitivity[] = ['off', 'low', 'medium', 'high'];
+
+export const SENSITIVITY_LABELS: Record<Sensitivity, string> = {
+  off: 'Off',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+export const SENSITIVITY_OPTIONS: Record<Exclude<Sensitivity, 'off'>, DetectionOptions> = {
+  low: { window: 14, threshold: 4 },
+  medium: { window: 14, threshold: 3 },
+  high: { window: 14, threshold: 2.25 },
+};
+
+// Flag points that sit far outside the rolling mean ± standard deviation of
+// the `window` points before them. Consecutive flagged points of the same
+// kind are one event, reported at its most extreme point.
+export const detectEvents = (
+  points: HistoricalPoint[],
+  { window, threshold }: DetectionOptions
+): DetectedEvent[] => {
+  const sorted = [...points].sort((a, b) => a.date - b.date);
+  const events: DetectedEvent[] = [];
+  let current: DetectedEvent | null = null;
+
+  for (let i = window; i < sorted.length; i++) {
+    const history = sorted.slice(i - window, i).map(point => point.count);
+    const mean = history.reduce((sum, value) => sum + value, 0) / window;
+    const variance = history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / window;
+    // Floor the deviation so perfectly flat stretches don't flag every wiggle
+    const deviation = Math.max(Math.sqrt(variance), mean * 0.01, 1);
+
+    const point = sorted[i];
+    const score = (point.count - mean) / deviation;
+
+    if (Math.abs(score) < threshold) {
+      current = null;
+      continue;
+    }
+
+    const kind: EventKind = score > 0 ? 'spike' : 'drop';
+    const candidate: DetectedEvent = { date: point.date, count: point.count, kind, baseline: Math.round(mean), score };
+
+    if (current && current.kind === kind) {
+      // Same run: keep whichever point is more extreme
+      if (Math.abs(score) > Math.abs(current.score)) {
+        Object.assign(current, candidate);
+      }
+    } else {
+      current = candidate;
+      events.push(current);
+    }
+  }
+
+  return events;
+};
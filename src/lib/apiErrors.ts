@@ -0,0 +1,65 @@
+// Error codes shared by the API routes and the page, so the UI can explain
+// what went wrong instead of showing a generic failure
+
+export type ApiErrorCode =
+  | 'not_tracked'
+  | 'upstream_down'
+  | 'rate_limited'
+  | 'bad_input'
+  | 'invalid_response'
+  | 'delivery_failed'
+  | 'unauthorized'
+  | 'internal';
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  not_tracked: 404,
+  upstream_down: 502,
+  rate_limited: 429,
+  bad_input: 400,
+  invalid_response: 502,
+  delivery_failed: 502,
+  unauthorized: 401,
+  internal: 500,
+};
+
+// User-facing message for a failed request about `subject` (a game name)
+export const describeApiError = (code: ApiErrorCode | undefined, subject: string): string => {
+  switch (code) {
+    case 'not_tracked':
+      return `${subject} isn't tracked publicly, so there is no data for it.`;
+    case 'upstream_down':
+      return `The data source for ${subject} is unreachable right now. Try again in a few minutes.`;
+    case 'rate_limited':
+      return `Too many requests while loading ${subject}. Wait a moment and try again.`;
+    case 'bad_input':
+      return `${subject} isn't a valid request.`;
+    case 'invalid_response':
+      return `The data source sent something unexpected for ${subject}.`;
+    case 'delivery_failed':
+      return `The webhook for ${subject} could not be reached or refused the delivery.`;
+    case 'unauthorized':
+      return `Not allowed to load ${subject}.`;
+    default:
+      return `Could not load data for ${subject}.`;
+  }
+};
+
+// Thrown on the client when an API route answers with an error envelope
+export class ApiRequestError extends Error {
+  constructor(message: string, public readonly code?: ApiErrorCode, public readonly status?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+// fetch() an API route and return its JSON, throwing ApiRequestError when
+// the route reports an error
+export const fetchApi = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(url, init);
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok || (json && typeof json === 'object' && 'error' in json)) {
+    throw new ApiRequestError(json?.error ?? `Request failed with ${res.status}`, json?.code, res.status);
+  }
+  return json as T;
+};
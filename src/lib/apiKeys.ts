@@ -0,0 +1,61 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+
+// A client allowed to call /api/v1. Without its own limit it gets
+// API_RATE_LIMIT requests per minute.
+export type ApiKey = {
+  name: string;
+  key: string;
+  requestsPerMinute?: number;
+};
+
+// Keys are read once per process from a local JSON file:
+//   { "keys": [{ "name": "dashboards", "key": "…", "requestsPerMinute": 120 }] }
+// When the file doesn't exist the API refuses every request, unless
+// PUBLIC_API_OPEN=1 opens it to callers without a key.
+const API_KEYS_FILE = process.env.API_KEYS_FILE ?? 'api-keys.json';
+
+const isApiKey = (value: unknown): value is ApiKey => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, key, requestsPerMinute } = value as Record<string, unknown>;
+  return typeof name === 'string' && typeof key === 'string' && key.length > 0
+    && (requestsPerMinute === undefined || (Number.isInteger(requestsPerMinute) && (requestsPerMinute as number) > 0));
+};
+
+// Callers without a key may use the API, limited per client address
+export const PUBLIC_API_OPEN = process.env.PUBLIC_API_OPEN === '1';
+
+const readKeys = async (): Promise<ApiKey[] | null> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(API_KEYS_FILE, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  // A broken config must not quietly open the API, so it fails every request
+  const config = JSON.parse(raw) as { keys?: unknown };
+  if (!Array.isArray(config.keys) || !config.keys.every(isApiKey)) {
+    throw new Error(`${API_KEYS_FILE} must hold a "keys" list of { name, key, requestsPerMinute? }`);
+  }
+  return config.keys;
+};
+
+let loaded: Promise<ApiKey[] | null> | null = null;
+
+// The configured keys, or null when no key file exists
+export const loadApiKeys = (): Promise<ApiKey[] | null> => {
+  loaded ??= readKeys().catch(error => {
+    // Try again on the next request once the file is fixed
+    loaded = null;
+    throw error;
+  });
+  return loaded;
+};
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Compare digests in constant time so response timing doesn't leak keys
+export const findApiKey = (keys: ApiKey[], candidate: string): ApiKey | undefined =>
+  keys.find(key => timingSafeEqual(digest(key.key), digest(candidate)));
@@ -0,0 +1,278 @@
+import { pointExtremes } from './downsample';
+import type { HistoricalPoint } from './types';
+
+// One row per timestamp, with a count column per game name
+export type ChartRow = {
+  date: number;
+  [series: string]: number;
+};
+
+// The subset of a selected game needed to build chart rows
+export type SeriesSource = {
+  name: string;
+  data: AggregatedPoint[];
+};
+
+// How the points inside one bucket are reduced to a single value
+export type Reducer = 'mean' | 'max' | 'min' | 'median' | 'last' | 'band';
+
+export const REDUCERS: Reducer[] = ['mean', 'max', 'min', 'median', 'last', 'band'];
+
+export const REDUCER_LABELS: Record<Reducer, string> = {
+  mean: 'Average',
+  max: 'Peak',
+  min: 'Minimum',
+  median: 'Median',
+  last: 'Last value',
+  band: 'Min–max band',
+};
+
+// Bucket size, either picked from the range ('auto') or fixed by the user
+export type IntervalChoice = 'auto' | 'raw' | 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+export const INTERVAL_CHOICES: IntervalChoice[] = ['auto', 'raw', 'hourly', 'daily', 'weekly', 'monthly'];
+
+export const INTERVAL_LABELS: Record<IntervalChoice, string> = {
+  auto: 'Auto',
+  raw: 'Raw',
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const INTERVAL_MS: Record<Exclude<IntervalChoice, 'auto'>, number> = {
+  raw: 0,
+  hourly: HOUR,
+  daily: DAY,
+  weekly: 7 * DAY,
+  monthly: 30 * DAY,
+};
+
+export type AggregationOptions = {
+  reducer: Reducer;
+  interval: IntervalChoice;
+};
+
+export const DEFAULT_AGGREGATION: AggregationOptions = { reducer: 'mean', interval: 'auto' };
+
+// A bucket's value, plus its spread when the band reducer is used or the
+// server downsampled the series
+export type AggregatedPoint = HistoricalPoint & {
+  min?: number;
+  max?: number;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const reduceBucket = (points: AggregatedPoint[], reducer: Reducer): number => {
+  const values = points.map(point => point.count);
+
+  switch (reducer) {
+    case 'max':
+      return points.reduce((peak, point) => Math.max(peak, pointExtremes(point).max), -Infinity);
+    case 'min':
+      return points.reduce((low, point) => Math.min(low, pointExtremes(point).min), Infinity);
+    case 'median':
+      return Math.round(median(values));
+    case 'last':
+      return points.reduce((latest, point) => point.date >= latest.date ? point : latest).count;
+    case 'mean':
+    case 'band':
+      return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  }
+};
+
+// Utility function to aggregate data points by time interval
+export const aggregateData = (
+  data: AggregatedPoint[],
+  intervalMs: number,
+  reducer: Reducer = 'mean'
+): AggregatedPoint[] => {
+  if (data.length === 0) return [];
+  
+  // If intervalMs is 0, return all data points without aggregation
+  if (intervalMs === 0) {
+    const sorted = data.sort((a, b) => a.date - b.date);
+    return reducer === 'band'
+      ? sorted.map(point => ({ date: point.date, count: point.count, ...pointExtremes(point) }))
+      : sorted.map(point => ({ date: point.date, count: point.count }));
+  }
+  
+  const buckets = new Map<number, AggregatedPoint[]>();
+  
+  data.forEach(point => {
+    // Round down to the nearest interval
+    const bucketKey = Math.floor(point.date / intervalMs) * intervalMs;
+    
+    if (!buckets.has(bucketKey)) {
+      buckets.set(bucketKey, []);
+    }
+    
+    buckets.get(bucketKey)!.push(point);
+  });
+  
+  // Convert buckets to array and reduce each one to a single value
+  return Array.from(buckets.entries())
+    .map(([date, points]) => {
+      const point: AggregatedPoint = { date, count: reduceBucket(points, reducer) };
+      if (reducer === 'band') {
+        point.min = reduceBucket(points, 'min');
+        point.max = reduceBucket(points, 'max');
+      }
+      return point;
+    })
+    .sort((a, b) => a.date - b.date);
+};
+
+// Determine appropriate interval based on time range
+export const getAggregationInterval = (startDate: number, endDate: number): number => {
+  const rangeMs = endDate - startDate;
+  const DAY = 24 * 60 * 60 * 1000;
+  const WEEK = 7 * DAY;
+  const MONTH = 30 * DAY;
+  
+  if (rangeMs <= DAY) {
+    // Less than 1 day: keep all data points (no aggregation)
+    return 0;
+  } else if (rangeMs <= 7 * DAY) {
+    // 1-7 days: hourly
+    return 60 * 60 * 1000; // 1 hour
+  } else if (rangeMs <= 3 * MONTH) {
+    // 7 days to 3 months: daily
+    return DAY;
+  } else if (rangeMs <= 12 * MONTH) {
+    // 3 months to 1 year: weekly
+    return WEEK;
+  } else {
+    // More than 1 year: monthly
+    return MONTH;
+  }
+};
+
+// Resolve the user's interval choice to a bucket size in milliseconds
+export const resolveInterval = (choice: IntervalChoice, startDate: number, endDate: number): number =>
+  choice === 'auto' ? getAggregationInterval(startDate, endDate) : INTERVAL_MS[choice];
+
+// Name of the interval that is actually in use, e.g. "Daily (auto)"
+export const describeInterval = (choice: IntervalChoice, startDate: number, endDate: number): string => {
+  if (choice !== 'auto') return INTERVAL_LABELS[choice];
+  const intervalMs = getAggregationInterval(startDate, endDate);
+  const resolved = (Object.keys(INTERVAL_MS) as (keyof typeof INTERVAL_MS)[])
+    .find(key => INTERVAL_MS[key] === intervalMs) ?? 'raw';
+  return `${INTERVAL_LABELS[resolved]} (auto)`;
+};
+
+// Row keys holding the lower and upper edge of a game's min–max band
+export const bandKeys = (name: string) => ({ min: `${name} (min)`, max: `${name} (max)` });
+
+// Get appropriate date format based on time range
+export const getDateFormat = (startDate: number, endDate: number): string => {
+  const rangeMs = endDate - startDate;
+  const DAY = 24 * 60 * 60 * 1000;
+  const MONTH = 30 * DAY;
+  
+  if (rangeMs <= 7 * DAY) {
+    return 'MMM d, HH:mm';
+  } else if (rangeMs <= 3 * MONTH) {
+    return 'MMM d';
+  } else if (rangeMs <= 12 * MONTH) {
+    return 'MMM d, yyyy';
+  } else {
+    return 'MMM yyyy';
+  }
+};
+
+// Find the intersection of all games' date ranges, falling back to the most
+// recent 12 months when they don't overlap
+export const getDefaultRange = (games: SeriesSource[]): { start: number; end: number } | null => {
+  if (games.length === 0) return null;
+
+  let maxStart = -Infinity;
+  let minEnd = Infinity;
+
+  games.forEach(game => {
+    if (game.data.length > 0) {
+      const gameStart = game.data[0].date;
+      const gameEnd = game.data[game.data.length - 1].date;
+      maxStart = Math.max(maxStart, gameStart);
+      minEnd = Math.min(minEnd, gameEnd);
+    }
+  });
+
+  // If there's an intersection, use it
+  if (maxStart <= minEnd && maxStart !== -Infinity) {
+    return { start: maxStart, end: minEnd };
+  }
+
+  // No intersection - default to most recent 12 months, up to the next full
+  // hour so the range doesn't move on every render
+  const now = Math.ceil(Date.now() / HOUR) * HOUR;
+  const twelveMonthsAgo = now - (365 * 24 * 60 * 60 * 1000);
+  return { start: twelveMonthsAgo, end: now };
+};
+
+// Filter one game's data to the date range and aggregate it
+export const aggregateSeries = (
+  data: AggregatedPoint[],
+  startDate: number,
+  endDate: number,
+  intervalMs: number,
+  reducer: Reducer = 'mean'
+): AggregatedPoint[] =>
+  aggregateData(data.filter(point => point.date >= startDate && point.date <= endDate), intervalMs, reducer);
+
+// Merge aggregated series into one row per timestamp
+export const mergeSeries = (aggregatedGames: { name: string; aggregatedData: AggregatedPoint[] }[]): ChartRow[] => {
+  // Create a map of all unique dates across all aggregated games
+  const dateMap = new Map<number, ChartRow>();
+
+  aggregatedGames.forEach(game => {
+    game.aggregatedData.forEach(point => {
+      const dateKey = point.date;
+
+      if (!dateMap.has(dateKey)) {
+        dateMap.set(dateKey, { date: dateKey });
+      }
+      // Add this game's count to the date object
+      const row = dateMap.get(dateKey)!;
+      row[game.name] = point.count;
+      if (point.min !== undefined && point.max !== undefined) {
+        const keys = bandKeys(game.name);
+        row[keys.min] = point.min;
+        row[keys.max] = point.max;
+      }
+    });
+  });
+
+  // Convert map to array and sort by date
+  return Array.from(dateMap.values()).sort((a, b) => a.date - b.date);
+};
+
+// Filter, aggregate and merge every game's series into date-keyed rows
+export const processChartData = (
+  selectedGames: SeriesSource[],
+  startDate: number | null,
+  endDate: number | null,
+  { reducer, interval }: AggregationOptions = DEFAULT_AGGREGATION
+): ChartRow[] => {
+  if (selectedGames.length === 0 || startDate === null || endDate === null) return [];
+
+  // Determine aggregation interval from the user's choice or the date range
+  const intervalMs = resolveInterval(interval, startDate, endDate);
+
+  // Aggregate each game's data first
+  const aggregatedGames = selectedGames.map(game => ({
+    ...game,
+    aggregatedData: aggregateSeries(game.data, startDate, endDate, intervalMs, reducer)
+  }));
+
+  return mergeSeries(aggregatedGames);
+};
@@ -0,0 +1,129 @@
+import { format } from 'date-fns';
+
+// Browser-only helpers that turn the rendered Recharts SVG into a standalone
+// image with a title, date range and legend baked in.
+
+export type ChartImageOptions = {
+  games: { name: string; color: string }[];
+  start: number;
+  end: number;
+  background?: string;
+};
+
+// One rendered Recharts <svg>, titled when it is one of several
+export type ChartPanel = {
+  surface: SVGSVGElement;
+  title?: { name: string; color: string };
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const HEADER_HEIGHT = 56;
+const PANEL_TITLE_HEIGHT = 20;
+const LEGEND_ROW_HEIGHT = 24;
+const PADDING = 16;
+
+const el = (name: string, attrs: Record<string, string | number>, text?: string) => {
+  const node = document.createElementNS(SVG_NS, name);
+  Object.entries(attrs).forEach(([key, value]) => node.setAttribute(key, String(value)));
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+// Compose a self-contained SVG document from the chart's <svg> elements,
+// laid out as they are on the page (side by side for small multiples)
+export const buildChartSvg = (panels: ChartPanel[], options: ChartImageOptions) => {
+  const rects = panels.map(panel => panel.surface.getBoundingClientRect());
+  const left = Math.min(...rects.map(rect => rect.left));
+  const top = Math.min(...rects.map(rect => rect.top));
+  // Titles sit in the gap above each panel, so only the top row needs room
+  const titleHeight = panels.some(panel => panel.title) ? PANEL_TITLE_HEIGHT : 0;
+  const width = Math.max(...rects.map(rect => rect.right)) - left;
+  const height = Math.max(...rects.map(rect => rect.bottom)) - top + titleHeight;
+  const legendRows = Math.ceil(options.games.length / 4);
+  const totalWidth = Math.round(width + PADDING * 2);
+  const totalHeight = Math.round(HEADER_HEIGHT + height + legendRows * LEGEND_ROW_HEIGHT + PADDING * 2);
+
+  const root = el('svg', {
+    xmlns: SVG_NS,
+    width: totalWidth,
+    height: totalHeight,
+    viewBox: `0 0 ${totalWidth} ${totalHeight}`,
+    'font-family': 'Arial, Helvetica, sans-serif',
+  });
+  root.appendChild(el('rect', { width: '100%', height: '100%', fill: options.background ?? '#0f172a' }));
+
+  root.appendChild(el('text', { x: PADDING, y: PADDING + 18, fill: '#ffffff', 'font-size': 18, 'font-weight': 'bold' },
+    'Steam History Compare'));
+  root.appendChild(el('text', { x: PADDING, y: PADDING + 38, fill: '#94a3b8', 'font-size': 12 },
+    `${format(new Date(options.start), 'PP')} – ${format(new Date(options.end), 'PP')}`));
+
+  // Nest the live charts so their own coordinate systems are preserved
+  panels.forEach((panel, index) => {
+    const rect = rects[index];
+    const x = PADDING + rect.left - left;
+    const y = HEADER_HEIGHT + titleHeight + rect.top - top;
+    const body = panel.surface.cloneNode(true) as SVGSVGElement;
+    body.setAttribute('x', String(x));
+    body.setAttribute('y', String(y));
+    body.setAttribute('width', String(rect.width));
+    body.setAttribute('height', String(rect.height));
+    root.appendChild(body);
+
+    if (panel.title) {
+      root.appendChild(el('circle', { cx: x + 5, cy: y - 10, r: 5, fill: panel.title.color }));
+      root.appendChild(el('text', { x: x + 16, y: y - 6, fill: '#ffffff', 'font-size': 13 }, panel.title.name));
+    }
+  });
+
+  // Recharts renders its legend as HTML, so redraw it as SVG
+  const columnWidth = (totalWidth - PADDING * 2) / 4;
+  options.games.forEach((game, index) => {
+    const x = PADDING + (index % 4) * columnWidth;
+    const y = HEADER_HEIGHT + height + PADDING + Math.floor(index / 4) * LEGEND_ROW_HEIGHT;
+    root.appendChild(el('circle', { cx: x + 6, cy: y, r: 5, fill: game.color }));
+    root.appendChild(el('text', { x: x + 18, y: y + 4, fill: '#e2e8f0', 'font-size': 12 }, game.name));
+  });
+
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    width: totalWidth,
+    height: totalHeight,
+  };
+};
+
+// Rasterize an SVG string at the device pixel ratio
+export const svgToPng = (svg: string, width: number, height: number, scale = window.devicePixelRatio || 1) =>
+  new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render chart image'));
+    };
+    image.src = url;
+  });
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
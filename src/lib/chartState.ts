@@ -0,0 +1,225 @@
+import { ALIGN_MODES, type AlignMode } from './alignment';
+import { SENSITIVITIES, type Sensitivity } from './anomalies';
+import {
+  DEFAULT_AGGREGATION, INTERVAL_CHOICES, REDUCERS, type IntervalChoice, type Reducer,
+} from './chartData';
+import { CHART_LAYOUTS, CHART_TYPES, type ChartLayout, type ChartType } from './chartTypes';
+import {
+  FORECAST_HORIZONS, FORECAST_SETTINGS, type ForecastHorizon, type ForecastSetting,
+} from './forecast';
+import { GROUP_REDUCERS, type GroupReducer } from './groups';
+import { SCALE_MODES, type ScaleMode } from './scaling';
+import { formatInTimeZone, isValidTimeZone, LOCAL_TIME_ZONE, parseDateInput } from './timezone';
+
+// Serializable description of a comparison, kept in the page's query string
+// so a view can be reloaded, shared and stepped through with back/forward.
+//
+//   ?games=730:3b82f6,570:ef4444:2013-07-09&from=1700000000000&to=1710000000000&agg=max
+//
+// Each game is `appid:color[:release date]`; the release date is only set
+// when the user overrides the launch used by the release-aligned view.
+// `from`/`to` are omitted when the chart shows its default range, and display
+// options are omitted while they hold their default value.
+//
+// Each group is its own `group` parameter, `reducer:color:appids:expanded:name`
+// with appids joined by dots, e.g. `group=sum:22c55e:730.570:0:Our titles`.
+// The name comes last so it may contain colons.
+export type ChartGameRef = {
+  id: number;
+  color: string;
+  release?: number;
+};
+
+export type ChartGroupRef = {
+  name: string;
+  appids: number[];
+  reducer: GroupReducer;
+  color: string;
+  // Also draw every member as its own series
+  expanded: boolean;
+};
+
+export type ChartOptions = {
+  reducer: Reducer;
+  interval: IntervalChoice;
+  scale: ScaleMode;
+  chartType: ChartType;
+  layout: ChartLayout;
+  // Small multiples share one Y axis range instead of fitting each game
+  sharedY: boolean;
+  align: AlignMode;
+  events: Sensitivity;
+  forecast: ForecastSetting;
+  horizon: ForecastHorizon;
+  // IANA zone used for dates and the heatmap, or 'local'
+  timeZone: string;
+  heatmap: boolean;
+  // Correlation and lag analysis between two of the games
+  correlation: boolean;
+  // Poll current player counts and append them to the series
+  live: boolean;
+};
+
+export type ChartState = {
+  games: ChartGameRef[];
+  groups: ChartGroupRef[];
+  start: number | null;
+  end: number | null;
+  options: ChartOptions;
+};
+
+export const DEFAULT_CHART_OPTIONS: ChartOptions = {
+  ...DEFAULT_AGGREGATION,
+  scale: 'linear',
+  chartType: 'area',
+  layout: 'single',
+  sharedY: true,
+  align: 'calendar',
+  events: 'off',
+  forecast: 'off',
+  horizon: 30,
+  timeZone: LOCAL_TIME_ZONE,
+  heatmap: false,
+  correlation: false,
+  live: false,
+};
+
+// Colors given to games and groups that don't have one yet, in order
+export const SERIES_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+export const EMPTY_CHART_STATE: ChartState = {
+  games: [],
+  groups: [],
+  start: null,
+  end: null,
+  options: DEFAULT_CHART_OPTIONS,
+};
+
+// Query parameter used for each display option
+const OPTION_PARAMS: Record<keyof ChartOptions, string> = {
+  reducer: 'agg',
+  interval: 'interval',
+  scale: 'scale',
+  chartType: 'type',
+  layout: 'layout',
+  sharedY: 'sharedy',
+  align: 'align',
+  events: 'events',
+  forecast: 'forecast',
+  horizon: 'horizon',
+  timeZone: 'tz',
+  heatmap: 'heatmap',
+  correlation: 'corr',
+  live: 'live',
+};
+
+const parseEnum = <T extends string | number>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.find(option => String(option) === value) ?? fallback;
+
+const parseTimeZone = (value: string | null): string =>
+  value && isValidTimeZone(value) ? value : DEFAULT_CHART_OPTIONS.timeZone;
+
+const parseTimestamp = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Launch dates are calendar days in the chart's time zone
+const parseGames = (value: string | null, timeZone: string): ChartGameRef[] => {
+  if (!value) return [];
+
+  const games: ChartGameRef[] = [];
+  for (const entry of value.split(',')) {
+    const [id, color, release] = entry.split(':');
+    if (!/^\d+$/.test(id) || games.some(game => game.id === Number(id))) continue;
+    const releaseTime = release && /^\d{4}-\d{2}-\d{2}$/.test(release) ? parseDateInput(release, timeZone) : null;
+    games.push({
+      id: Number(id),
+      color: color && /^[0-9a-f]{6}$/i.test(color) ? `#${color.toLowerCase()}` : '',
+      ...(releaseTime === null ? {} : { release: releaseTime }),
+    });
+  }
+  return games;
+};
+
+const parseGroups = (values: string[]): ChartGroupRef[] => values.flatMap(value => {
+  const [reducer, color, appids, expanded, ...name] = value.split(':');
+  const ids = [...new Set((appids ?? '').split('.').filter(id => /^\d+$/.test(id)).map(Number))];
+  if (!GROUP_REDUCERS.includes(reducer as GroupReducer) || ids.length === 0 || name.join(':').trim() === '') return [];
+
+  return [{
+    name: name.join(':').trim(),
+    appids: ids,
+    reducer: reducer as GroupReducer,
+    color: color && /^[0-9a-f]{6}$/i.test(color) ? `#${color.toLowerCase()}` : '',
+    expanded: expanded === '1',
+  }];
+});
+
+export const parseChartState = (params: URLSearchParams): ChartState => {
+  const start = parseTimestamp(params.get('from'));
+  const end = parseTimestamp(params.get('to'));
+  const timeZone = parseTimeZone(params.get(OPTION_PARAMS.timeZone));
+
+  return {
+    games: parseGames(params.get('games'), timeZone),
+    groups: parseGroups(params.getAll('group')),
+    // A half-specified range is meaningless, fall back to the default
+    start: start !== null && end !== null ? start : null,
+    end: start !== null && end !== null ? end : null,
+    options: {
+      reducer: parseEnum(params.get(OPTION_PARAMS.reducer), REDUCERS, DEFAULT_CHART_OPTIONS.reducer),
+      interval: parseEnum(params.get(OPTION_PARAMS.interval), INTERVAL_CHOICES, DEFAULT_CHART_OPTIONS.interval),
+      scale: parseEnum(params.get(OPTION_PARAMS.scale), SCALE_MODES, DEFAULT_CHART_OPTIONS.scale),
+      chartType: parseEnum(params.get(OPTION_PARAMS.chartType), CHART_TYPES, DEFAULT_CHART_OPTIONS.chartType),
+      layout: parseEnum(params.get(OPTION_PARAMS.layout), CHART_LAYOUTS, DEFAULT_CHART_OPTIONS.layout),
+      sharedY: params.get(OPTION_PARAMS.sharedY) !== '0',
+      align: parseEnum(params.get(OPTION_PARAMS.align), ALIGN_MODES, DEFAULT_CHART_OPTIONS.align),
+      events: parseEnum(params.get(OPTION_PARAMS.events), SENSITIVITIES, DEFAULT_CHART_OPTIONS.events),
+      forecast: parseEnum(params.get(OPTION_PARAMS.forecast), FORECAST_SETTINGS, DEFAULT_CHART_OPTIONS.forecast),
+      horizon: parseEnum(params.get(OPTION_PARAMS.horizon), FORECAST_HORIZONS, DEFAULT_CHART_OPTIONS.horizon),
+      timeZone,
+      heatmap: params.get(OPTION_PARAMS.heatmap) === '1',
+      correlation: params.get(OPTION_PARAMS.correlation) === '1',
+      live: params.get(OPTION_PARAMS.live) === '1',
+    },
+  };
+};
+
+export const serializeChartState = (state: ChartState): string => {
+  const params = new URLSearchParams();
+
+  if (state.games.length > 0) {
+    params.set('games', state.games
+      .map(game => [
+        game.id,
+        game.color.replace('#', ''),
+        ...(game.release !== undefined ? [formatInTimeZone(game.release, 'yyyy-MM-dd', state.options.timeZone)] : []),
+      ].join(':').replace(/:+$/, ''))
+      .join(','));
+  }
+  state.groups.forEach(group => {
+    params.append('group', [
+      group.reducer,
+      group.color.replace('#', ''),
+      group.appids.join('.'),
+      group.expanded ? '1' : '0',
+      group.name,
+    ].join(':'));
+  });
+  if (state.start !== null && state.end !== null) {
+    params.set('from', String(Math.round(state.start)));
+    params.set('to', String(Math.round(state.end)));
+  }
+
+  (Object.keys(OPTION_PARAMS) as (keyof ChartOptions)[]).forEach(option => {
+    if (state.options[option] !== DEFAULT_CHART_OPTIONS[option]) {
+      const value = state.options[option];
+      params.set(OPTION_PARAMS[option], typeof value === 'boolean' ? (value ? '1' : '0') : String(value));
+    }
+  });
+
+  // Keep separators readable in the address bar
+  return params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':').replace(/%2F/g, '/');
+};
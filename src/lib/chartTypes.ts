@@ -0,0 +1,30 @@
+import type { IntervalChoice } from './chartData';
+
+// How the series are drawn. Stacked types add the games up, so they always
+// use plain player counts; bars only read well with a few wide buckets.
+export type ChartType = 'area' | 'line' | 'stacked' | 'percent' | 'bar';
+
+export const CHART_TYPES: ChartType[] = ['area', 'line', 'stacked', 'percent', 'bar'];
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  area: 'Area',
+  line: 'Line',
+  stacked: 'Stacked area',
+  percent: '100% stacked',
+  bar: 'Monthly bars',
+};
+
+export const isStacked = (type: ChartType) => type === 'stacked' || type === 'percent';
+
+// Bars are always drawn per month
+export const BAR_INTERVAL: IntervalChoice = 'monthly';
+
+// Every game on one chart, or one small chart per game
+export type ChartLayout = 'single' | 'grid';
+
+export const CHART_LAYOUTS: ChartLayout[] = ['single', 'grid'];
+
+export const CHART_LAYOUT_LABELS: Record<ChartLayout, string> = {
+  single: 'One chart',
+  grid: 'Chart per game',
+};
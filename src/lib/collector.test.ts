@@ -0,0 +1,92 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A stand-in for the Steam Web API's current players endpoint
+const counts: Record<string, number | null> = { '730': 1000, '570': 500, '440': null };
+const requested: string[] = [];
+
+let server: Server;
+let dir: string;
+let collector: typeof import('./collector');
+let store: typeof import('./store');
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const appid = new URL(req.url ?? '/', 'http://localhost').searchParams.get('appid') ?? '';
+    requested.push(appid);
+    if (!(appid in counts)) {
+      res.writeHead(404).end();
+      return;
+    }
+    const count = counts[appid];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ response: count === null ? { result: 42 } : { player_count: count, result: 1 } }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  // Both are read when the modules load
+  vi.stubEnv('STEAM_API_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv('UPSTREAM_MIN_INTERVAL_MS', '1');
+  collector = await import('./collector');
+  store = await import('./store');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise(resolve => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  if (dir) await rm(dir, { recursive: true, force: true });
+  dir = await mkdtemp(path.join(tmpdir(), 'collector-'));
+  store.setStore(store.createFileStore(dir));
+  requested.length = 0;
+});
+
+describe('collectSamples', () => {
+  it('records one sample per game and reports the failures', async () => {
+    const result = await collector.collectSamples(['730', '570', '440', '1']);
+
+    expect(result.collected).toEqual([{ appid: '730', count: 1000 }, { appid: '570', count: 500 }]);
+    expect(result.failed.map(failure => failure.appid)).toEqual(['440', '1']);
+    expect(await collector.getSamples('730')).toEqual([{ date: expect.any(Number), count: 1000 }]);
+    expect(await collector.getSamples('440')).toEqual([]);
+  });
+
+  it('appends to the samples already stored', async () => {
+    await collector.collectSamples(['730']);
+    counts['730'] = 1200;
+    await collector.collectSamples(['730']);
+    counts['730'] = 1000;
+
+    const samples = await collector.getSamples('730');
+    expect(samples.map(sample => sample.count)).toEqual([1000, 1200]);
+    expect(samples[0].date).toBeLessThanOrEqual(samples[1].date);
+  });
+
+  it('keeps every sample when runs overlap', async () => {
+    await Promise.all([collector.collectSamples(['730']), collector.collectSamples(['730', '570'])]);
+
+    expect(await collector.getSamples('730')).toHaveLength(2);
+  });
+
+  it('refuses to run without a persistent store', async () => {
+    store.setStore(store.createMemoryStore());
+
+    await expect(collector.collectSamples(['730'])).rejects.toThrow(/persistent store/);
+    expect(requested).toEqual([]);
+  });
+});
+
+describe('getWatchlist', () => {
+  it('reads appids from COLLECTOR_APPIDS', () => {
+    vi.stubEnv('COLLECTOR_APPIDS', '730, 570\n440,not-an-appid');
+
+    expect(collector.getWatchlist()).toEqual(['730', '570', '440']);
+  });
+});
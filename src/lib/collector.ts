@@ -0,0 +1,68 @@
+import { getStore } from './store';
+import { fetchCurrentPlayers } from './steamApi';
+import type { HistoricalPoint } from './types';
+
+export type CollectResult = {
+  collected: { appid: string; count: number }[];
+  failed: { appid: string; error: string }[];
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Samples older than this are dropped on the next write
+const RETENTION_MS = (Number(process.env.COLLECTOR_RETENTION_DAYS) || 90) * DAY;
+
+const keyFor = (appid: string) => `samples:${appid}`;
+
+// Appids to poll, from COLLECTOR_APPIDS (comma or whitespace separated)
+export const getWatchlist = (): string[] =>
+  (process.env.COLLECTOR_APPIDS ?? '')
+    .split(/[\s,]+/)
+    .filter(appid => /^\d+$/.test(appid));
+
+// Samples are only worth collecting if they outlive the process that took
+// them, so refuse to run on the memory adapter rather than quietly lose them
+const getSampleStore = () => {
+  const store = getStore();
+  if (!store.persistent) {
+    throw new Error('The collector needs a persistent store; set STORE_ADAPTER to "file" or "redis"');
+  }
+  return store;
+};
+
+export const getSamples = async (appid: string): Promise<HistoricalPoint[]> =>
+  (await getStore().get<HistoricalPoint[]>(keyFor(appid))) ?? [];
+
+// Under the store's lock, so overlapping runs can't both read the same
+// samples and each drop the other's
+const appendSample = (appid: string, sample: HistoricalPoint) =>
+  getSampleStore().withLock(keyFor(appid), async () => {
+    const cutoff = sample.date - RETENTION_MS;
+    const samples = (await getSamples(appid)).filter(point => point.date >= cutoff);
+    samples.push(sample);
+    samples.sort((a, b) => a.date - b.date);
+    await getSampleStore().set(keyFor(appid), samples);
+  });
+
+// Take one sample of the live player count for every appid. A failing appid
+// is reported but never stops the rest of the batch.
+export const collectSamples = async (appids: string[] = getWatchlist()): Promise<CollectResult> => {
+  // Fail before polling Steam, not after
+  getSampleStore();
+  const date = Date.now();
+  const result: CollectResult = { collected: [], failed: [] };
+
+  const outcomes = await Promise.allSettled(appids.map(appid => fetchCurrentPlayers(appid)));
+
+  for (const [index, outcome] of outcomes.entries()) {
+    const appid = appids[index];
+    if (outcome.status === 'fulfilled') {
+      await appendSample(appid, { date, count: outcome.value });
+      result.collected.push({ appid, count: outcome.value });
+    } else {
+      result.failed.push({ appid, error: String(outcome.reason?.message ?? outcome.reason) });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,42 @@
+import { randomUUID } from 'crypto';
+import { getStore } from './store';
+import type { Comparison, ComparisonInput } from './comparisons';
+
+const PREFIX = 'comparison:';
+
+export const listComparisons = async (): Promise<Comparison[]> => {
+  const store = getStore();
+  const keys = await store.keys(PREFIX);
+  const comparisons = await Promise.all(keys.map(key => store.get<Comparison>(key)));
+
+  return comparisons
+    .filter((comparison): comparison is Comparison => comparison !== undefined)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getComparison = (id: string) => getStore().get<Comparison>(`${PREFIX}${id}`);
+
+export const createComparison = async (input: ComparisonInput): Promise<Comparison> => {
+  const now = Date.now();
+  const comparison: Comparison = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+  await getStore().set(`${PREFIX}${comparison.id}`, comparison);
+  return comparison;
+};
+
+// Returns undefined when no comparison has that id
+export const updateComparison = async (id: string, changes: Partial<ComparisonInput>): Promise<Comparison | undefined> => {
+  const existing = await getComparison(id);
+  if (!existing) return undefined;
+
+  const updated: Comparison = { ...existing, ...changes, id, updatedAt: Date.now() };
+  await getStore().set(`${PREFIX}${id}`, updated);
+  return updated;
+};
+
+export const deleteComparison = async (id: string): Promise<boolean> => {
+  const existing = await getComparison(id);
+  if (!existing) return false;
+
+  await getStore().delete(`${PREFIX}${id}`);
+  return true;
+};
@@ -0,0 +1,71 @@
+// Shared saved-comparison shapes and validation, safe to import from the client
+import { parseChartState, serializeChartState } from './chartState';
+
+// A named view: `query` is the page's query string (games, colors, range
+// and display options) in the format described in chartState.ts
+export type Comparison = {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ComparisonInput = Pick<Comparison, 'name' | 'query'>;
+
+// Body of /api/comparisons/export, accepted back by /api/comparisons/import
+export type ComparisonExport = {
+  version: 1;
+  exportedAt: number;
+  comparisons: ComparisonInput[];
+};
+
+type ValidationResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+const MAX_NAME_LENGTH = 80;
+export const MAX_IMPORTED_COMPARISONS = 200;
+
+// Check an untrusted request body. With `partial`, missing fields are
+// allowed so the same rules cover renames. The query is normalized by a
+// round trip through the chart state parser.
+export function validateComparisonInput(body: unknown, partial: true): ValidationResult<Partial<ComparisonInput>>;
+export function validateComparisonInput(body: unknown, partial?: false): ValidationResult<ComparisonInput>;
+export function validateComparisonInput(body: unknown, partial = false): ValidationResult<Partial<ComparisonInput>> {
+  if (typeof body !== 'object' || body === null) return { error: 'Body must be a JSON object' };
+  const input = body as Record<string, unknown>;
+  const value: Partial<ComparisonInput> = {};
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || input.name.trim() === '') return { error: 'name is required' };
+    if (input.name.length > MAX_NAME_LENGTH) return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    value.name = input.name.trim();
+  }
+  if (input.query !== undefined || !partial) {
+    if (typeof input.query !== 'string') return { error: 'query must be a query string' };
+    const state = parseChartState(new URLSearchParams(input.query));
+    if (state.games.length === 0 && state.groups.length === 0) return { error: 'query must include at least one game' };
+    value.query = serializeChartState(state);
+  }
+
+  return { value };
+}
+
+// Check an uploaded export file, returning the comparisons it holds
+export const validateComparisonExport = (body: unknown): ValidationResult<ComparisonInput[]> => {
+  if (typeof body !== 'object' || body === null || !Array.isArray((body as ComparisonExport).comparisons)) {
+    return { error: 'File must be a comparisons export with a "comparisons" list' };
+  }
+
+  const { comparisons } = body as ComparisonExport;
+  if (comparisons.length > MAX_IMPORTED_COMPARISONS) {
+    return { error: `At most ${MAX_IMPORTED_COMPARISONS} comparisons can be imported at once` };
+  }
+
+  const value: ComparisonInput[] = [];
+  for (const [index, entry] of comparisons.entries()) {
+    const result = validateComparisonInput(entry);
+    if (result.error !== undefined) return { error: `Comparison ${index + 1}: ${result.error}` };
+    value.push(result.value);
+  }
+  return { value };
+};
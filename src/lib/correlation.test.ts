@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignSeries, correlate, crossCorrelation, rank, rollingCorrelation, strongestLag, toChanges,
+} from './correlation';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const daily = (counts: number[], offset = 0) =>
+  counts.map((count, i) => ({ date: START + (i + offset) * DAY, count }));
+
+const pairs = (xs: number[], ys: number[]) => xs.map((x, i) => ({ x, y: ys[i] }));
+
+describe('correlate', () => {
+  it('gives 1 and -1 for perfectly linear series', () => {
+    expect(correlate(pairs([1, 2, 3, 4], [10, 20, 30, 40]), 'pearson')).toBeCloseTo(1);
+    expect(correlate(pairs([1, 2, 3, 4], [40, 30, 20, 10]), 'pearson')).toBeCloseTo(-1);
+  });
+
+  it('ranks before correlating for spearman', () => {
+    const xs = [1, 2, 3, 4, 5];
+    const ys = xs.map(x => x ** 4);
+
+    expect(correlate(pairs(xs, ys), 'spearman')).toBeCloseTo(1);
+    expect(correlate(pairs(xs, ys), 'pearson')).toBeLessThan(0.95);
+  });
+
+  it('has no value for too few pairs or a flat series', () => {
+    expect(correlate(pairs([1, 2], [3, 4]), 'pearson')).toBeNull();
+    expect(correlate(pairs([1, 2, 3], [5, 5, 5]), 'pearson')).toBeNull();
+    expect(correlate(pairs([1, 2, 3], [5, 5, 5]), 'spearman')).toBeNull();
+  });
+
+  it('shares ranks between ties', () => {
+    expect(rank([10, 30, 20, 30])).toEqual([1, 3.5, 2, 3.5]);
+  });
+});
+
+describe('alignSeries and toChanges', () => {
+  it('pairs the buckets both series have', () => {
+    expect(alignSeries(daily([1, 2, 3]), daily([10, 20, 30], 1))).toEqual([
+      { date: START + DAY, x: 2, y: 10 },
+      { date: START + 2 * DAY, x: 3, y: 20 },
+    ]);
+  });
+
+  it('drops changes after a gap or a zero', () => {
+    const points = [...daily([100, 110, 0, 50]), { date: START + 5 * DAY, count: 60 }];
+
+    expect(toChanges(points, DAY)).toEqual([
+      { date: START + DAY, count: 0.1 },
+      { date: START + 2 * DAY, count: -1 },
+    ]);
+  });
+});
+
+describe('crossCorrelation', () => {
+  // An irregular series and the same series three days later
+  const leading = daily([5, 9, 2, 7, 8, 1, 6, 3, 9, 4, 7, 2, 8, 5, 1, 6]);
+  const following = daily(leading.map(point => point.count), 3);
+
+  it('peaks at the lag one series follows the other by', () => {
+    const lags = crossCorrelation(leading, following, DAY, 5);
+
+    expect(lags.map(lag => lag.lag)).toEqual([-5, -4, -3, -2, -1, 0, 1, 2, 3, 4, 5]);
+    expect(strongestLag(lags)).toMatchObject({ lag: 3, n: 16 });
+    expect(lags.find(lag => lag.lag === 3)?.r).toBeCloseTo(1);
+  });
+
+  it('peaks at a negative lag when the order is swapped', () => {
+    expect(strongestLag(crossCorrelation(following, leading, DAY, 5))).toMatchObject({ lag: -3 });
+  });
+
+  it('counts only the pairs that overlap at each lag', () => {
+    const lags = crossCorrelation(daily([1, 2, 3, 4]), daily([1, 2, 3, 4]), DAY, 2);
+
+    expect(lags.map(lag => lag.n)).toEqual([2, 3, 4, 3, 2]);
+    expect(lags[0].r).toBeNull();
+  });
+
+  it('prefers the smaller shift on ties', () => {
+    expect(strongestLag([{ lag: -2, r: 0.5, n: 10 }, { lag: 1, r: -0.5, n: 10 }, { lag: 3, r: 0.5, n: 10 }]))
+      .toMatchObject({ lag: 1 });
+    expect(strongestLag([{ lag: 0, r: null, n: 1 }])).toBeNull();
+  });
+});
+
+describe('rollingCorrelation', () => {
+  it('dates each window by its last pair', () => {
+    const aligned = alignSeries(daily([1, 2, 3, 4, 5, 6]), daily([2, 4, 6, 5, 4, 3]));
+    const rolling = rollingCorrelation(aligned, 3);
+
+    expect(rolling.map(point => point.date)).toEqual([2, 3, 4, 5].map(i => START + i * DAY));
+    expect(rolling[0].r).toBeCloseTo(1);
+    expect(rolling[3].r).toBeCloseTo(-1);
+  });
+
+  it('is empty when there are fewer pairs than the window', () => {
+    expect(rollingCorrelation(alignSeries(daily([1, 2]), daily([1, 2])), 3)).toEqual([]);
+  });
+});
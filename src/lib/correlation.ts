@@ -0,0 +1,154 @@
+import type { AggregatedPoint } from './chartData';
+
+// How two series are compared: linear correlation of the values, or
+// correlation of their ranks, which only asks whether they rise and fall
+// together
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export const CORRELATION_METHODS: CorrelationMethod[] = ['pearson', 'spearman'];
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+};
+
+// Player counts themselves, or their change from one bucket to the next.
+// Two games that both decline over a year correlate strongly on levels;
+// changes show whether they move together from day to day.
+export type SeriesTransform = 'levels' | 'changes';
+
+export const SERIES_TRANSFORMS: SeriesTransform[] = ['levels', 'changes'];
+
+export const SERIES_TRANSFORM_LABELS: Record<SeriesTransform, string> = {
+  levels: 'Player counts',
+  changes: 'Changes',
+};
+
+export type AlignedPair = {
+  date: number;
+  x: number;
+  y: number;
+};
+
+// Correlation at one lag; `r` is null when there were too few pairs
+export type LagCorrelation = {
+  lag: number;
+  r: number | null;
+  n: number;
+};
+
+export type RollingPoint = {
+  date: number;
+  r: number | null;
+};
+
+// Fewer pairs than this give a meaningless coefficient
+export const MIN_PAIRS = 3;
+
+// Relative change of each bucket from the one right before it. Buckets
+// after a missing bucket or a zero have no change and are dropped.
+export const toChanges = (points: AggregatedPoint[], intervalMs: number): AggregatedPoint[] =>
+  points.flatMap((point, i) => {
+    const previous = points[i - 1];
+    if (!previous || previous.count === 0 || point.date - previous.date !== intervalMs) return [];
+    return [{ date: point.date, count: (point.count - previous.count) / previous.count }];
+  });
+
+// Pair the buckets two series have in common. Both must come from
+// aggregateData with the same interval so their bucket dates line up.
+export const alignSeries = (a: AggregatedPoint[], b: AggregatedPoint[]): AlignedPair[] => {
+  const byDate = new Map(b.map(point => [point.date, point.count]));
+  return a.flatMap(point => {
+    const y = byDate.get(point.date);
+    return y === undefined ? [] : [{ date: point.date, x: point.count, y }];
+  });
+};
+
+export const pearson = (xs: number[], ys: number[]): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < MIN_PAIRS) return null;
+
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  // A flat series has no correlation with anything
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// 1-based ranks, tied values sharing the average of their ranks
+export const rank = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const average = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = average;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+export const spearman = (xs: number[], ys: number[]): number | null => pearson(rank(xs), rank(ys));
+
+export const correlate = (pairs: Pick<AlignedPair, 'x' | 'y'>[], method: CorrelationMethod): number | null => {
+  const xs = pairs.map(pair => pair.x);
+  const ys = pairs.map(pair => pair.y);
+  return method === 'pearson' ? pearson(xs, ys) : spearman(xs, ys);
+};
+
+// Correlation of `a` with `b` shifted by each lag from -maxLag to maxLag
+// buckets. At a positive lag `a` is compared with `b` that many buckets
+// later, so a peak there means `b` follows `a`.
+export const crossCorrelation = (
+  a: AggregatedPoint[],
+  b: AggregatedPoint[],
+  intervalMs: number,
+  maxLag: number,
+  method: CorrelationMethod = 'pearson'
+): LagCorrelation[] => {
+  const byDate = new Map(b.map(point => [point.date, point.count]));
+
+  return Array.from({ length: 2 * maxLag + 1 }, (_, i) => {
+    const lag = i - maxLag;
+    const pairs = a.flatMap(point => {
+      const y = byDate.get(point.date + lag * intervalMs);
+      return y === undefined ? [] : [{ x: point.count, y }];
+    });
+    return { lag, r: correlate(pairs, method), n: pairs.length };
+  });
+};
+
+// The lag with the largest absolute correlation, preferring the smaller
+// shift on ties
+export const strongestLag = (lags: LagCorrelation[]): LagCorrelation | null =>
+  lags.reduce<LagCorrelation | null>((best, lag) => {
+    if (lag.r === null) return best;
+    if (!best || best.r === null) return lag;
+    const stronger = Math.abs(lag.r) > Math.abs(best.r)
+      || (Math.abs(lag.r) === Math.abs(best.r) && Math.abs(lag.lag) < Math.abs(best.lag));
+    return stronger ? lag : best;
+  }, null);
+
+// Correlation over a sliding window of `window` pairs, dated by the last
+// pair in each window
+export const rollingCorrelation = (
+  pairs: AlignedPair[],
+  window: number,
+  method: CorrelationMethod = 'pearson'
+): RollingPoint[] =>
+  pairs.slice(window - 1).map((pair, i) => ({
+    date: pair.date,
+    r: correlate(pairs.slice(i, i + window), method),
+  }));
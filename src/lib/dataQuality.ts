@@ -0,0 +1,145 @@
+import type { HistoricalPoint } from './types';
+
+export type TimeRange = { from: number; to: number };
+
+// Where the spacing between samples settled at a new level, e.g. daily
+// points giving way to one every ten minutes
+export type SamplingChange = {
+  date: number;
+  before: number;
+  after: number;
+};
+
+export type DataQuality = {
+  points: number;
+  // Share of the time from the first to the last point not inside a gap
+  coverage: number;
+  // Stretches with no samples, from the last point before to the first after
+  gaps: TimeRange[];
+  // Points sharing their timestamp with an earlier point
+  duplicates: number;
+  // Consecutive zero counts, usually the tracker failing rather than an
+  // empty game
+  zeroRuns: (TimeRange & { points: number })[];
+  samplingChanges: SamplingChange[];
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Intervals compared with an interval's neighbours to tell its local spacing
+const WINDOW = 10;
+// Fewer neighbouring intervals than this say nothing about the spacing
+const MIN_NEIGHBOURS = 3;
+// An interval this many times the local spacing on both sides is a gap...
+const GAP_FACTOR = 4;
+// ...as long as it is at least this long
+const MIN_GAP_MS = 6 * HOUR;
+// Spacing has to halve or double to count as a sampling change
+const SAMPLING_FACTOR = 2;
+const MIN_ZERO_RUN = 3;
+
+const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Gaps between consecutive `points`, given the intervals between them. The spacing
+// on each side is judged separately so a switch to sparser sampling isn't
+// taken for a gap.
+const findGaps = (points: HistoricalPoint[], intervals: number[]): TimeRange[] => {
+  const spacing = (window: number[]) => window.length >= MIN_NEIGHBOURS ? median(window) : undefined;
+
+  return intervals.flatMap((interval, i) => {
+    if (interval < MIN_GAP_MS) return [];
+    const before = spacing(intervals.slice(Math.max(0, i - WINDOW), i));
+    const after = spacing(intervals.slice(i + 1, i + 1 + WINDOW));
+    if (before === undefined && after === undefined) return [];
+
+    const isGap = (before === undefined || interval > GAP_FACTOR * before)
+      && (after === undefined || interval > GAP_FACTOR * after);
+    return isGap ? [{ from: points[i].date, to: points[i + 1].date }] : [];
+  });
+};
+
+// Walk the spacing outside gaps and note where it settles at a new level
+const findSamplingChanges = (steps: { date: number; interval: number }[]): SamplingChange[] => {
+  const changes: SamplingChange[] = [];
+  let current = median(steps.slice(0, WINDOW).map(step => step.interval));
+  if (current === undefined) return changes;
+
+  for (let i = WINDOW; i + WINDOW <= steps.length; i++) {
+    const level = median(steps.slice(i, i + WINDOW).map(step => step.interval))!;
+    if (level >= current * SAMPLING_FACTOR || level <= current / SAMPLING_FACTOR) {
+      changes.push({ date: steps[i].date, before: current, after: level });
+      current = level;
+      // Skip past the window that established the new level
+      i += WINDOW - 1;
+    }
+  }
+  return changes;
+};
+
+const findZeroRuns = (points: HistoricalPoint[]): DataQuality['zeroRuns'] => {
+  const runs: DataQuality['zeroRuns'] = [];
+  let start = -1;
+
+  points.forEach((point, i) => {
+    if (point.count === 0 && start === -1) start = i;
+    const ends = start !== -1 && (point.count !== 0 || i === points.length - 1);
+    if (!ends) return;
+
+    const last = point.count === 0 ? i : i - 1;
+    if (last - start + 1 >= MIN_ZERO_RUN) {
+      runs.push({ from: points[start].date, to: points[last].date, points: last - start + 1 });
+    }
+    start = -1;
+  });
+  return runs;
+};
+
+// Check a raw history for the problems SteamCharts data tends to have
+export const analyzeQuality = (data: HistoricalPoint[]): DataQuality => {
+  const sorted = [...data].sort((a, b) => a.date - b.date);
+  const points = sorted.filter((point, i) => i === 0 || point.date !== sorted[i - 1].date);
+  const intervals = points.slice(1).map((point, i) => point.date - points[i].date);
+
+  const gaps = findGaps(points, intervals);
+  const gapStarts = new Set(gaps.map(gap => gap.from));
+  const steps = intervals
+    .map((interval, i) => ({ date: points[i].date, interval }))
+    .filter(step => !gapStarts.has(step.date));
+
+  const span = points.length > 1 ? points[points.length - 1].date - points[0].date : 0;
+  const missing = gaps.reduce((sum, gap) => sum + gap.to - gap.from, 0);
+
+  return {
+    points: points.length,
+    coverage: span > 0 ? 1 - missing / span : 1,
+    gaps,
+    duplicates: sorted.length - points.length,
+    zeroRuns: findZeroRuns(points),
+    samplingChanges: findSamplingChanges(steps),
+  };
+};
+
+// Split a series' timeline at its gaps into the stretches to draw as
+// connected lines. With points aggregated into `bucket`-wide buckets (dated
+// by their start), gaps up to two buckets long are hidden by the bucketing
+// and ignored, and the stretch after a gap starts with the bucket holding
+// its first point.
+export const splitAtGaps = (gaps: TimeRange[], bucket = 0): TimeRange[] => {
+  const segments: TimeRange[] = [];
+  let from = -Infinity;
+
+  gaps
+    .filter(gap => gap.to - gap.from > 2 * bucket)
+    .sort((a, b) => a.from - b.from)
+    .forEach(gap => {
+      segments.push({ from, to: gap.from });
+      from = gap.to - bucket;
+    });
+  segments.push({ from, to: Infinity });
+  return segments;
+};
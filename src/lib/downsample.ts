@@ -0,0 +1,75 @@
+import type { AggregatedPoint } from './chartData';
+import type { HistoricalPoint } from './types';
+
+// Largest-Triangle-Three-Buckets: keep the first and last point and, from
+// each bucket in between, the point forming the largest triangle with the
+// previously kept point and the average of the next bucket. Every kept point
+// carries the min and max of the bucket it stands in for.
+export const lttb = (points: HistoricalPoint[], threshold: number): AggregatedPoint[] => {
+  if (threshold < 3 || points.length <= threshold) return points;
+
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const sampled: AggregatedPoint[] = [{ ...first, min: first.count, max: first.count }];
+  let previous = first;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket (just the last point for the final bucket)
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length);
+    let avgDate = 0;
+    let avgCount = 0;
+    for (let i = end; i < nextEnd; i++) {
+      avgDate += points[i].date;
+      avgCount += points[i].count;
+    }
+    avgDate /= nextEnd - end;
+    avgCount /= nextEnd - end;
+
+    let chosen = points[start];
+    let maxArea = -1;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = start; i < end; i++) {
+      const point = points[i];
+      const area = Math.abs(
+        (previous.date - avgDate) * (point.count - previous.count) -
+        (previous.date - point.date) * (avgCount - previous.count)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = point;
+      }
+      min = Math.min(min, point.count);
+      max = Math.max(max, point.count);
+    }
+
+    sampled.push({ ...chosen, min, max });
+    previous = chosen;
+  }
+
+  sampled.push({ ...last, min: last.count, max: last.count });
+  return sampled;
+};
+
+// The lowest and highest count a point stands for: a downsampled point
+// carries the extremes of the points it replaced, any other just its own
+export const pointExtremes = (point: AggregatedPoint) => ({
+  min: point.min ?? point.count,
+  max: point.max ?? point.count,
+});
+
+// Replace the part of `series` between `from` and `to` with a finer slice
+export const spliceRange = (
+  series: AggregatedPoint[],
+  slice: AggregatedPoint[],
+  from: number,
+  to: number
+): AggregatedPoint[] => [
+  ...series.filter(point => point.date < from),
+  ...slice,
+  ...series.filter(point => point.date > to),
+];
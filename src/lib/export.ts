@@ -0,0 +1,49 @@
+import type { ChartRow } from './chartData';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportMeta = {
+  start: number;
+  end: number;
+  games: { id: number; name: string }[];
+};
+
+const escapeCsv = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Date-merged rows with ISO dates and an explicit null where a game has no
+// value, so every row carries every column
+const toExportRows = (rows: ChartRow[], names: string[]) =>
+  rows.map(row => {
+    const out: Record<string, string | number | null> = { date: new Date(row.date).toISOString() };
+    names.forEach(name => {
+      out[name] = row[name] ?? null;
+    });
+    return out;
+  });
+
+// One `date` column followed by one column per game, in selection order
+export const toCsv = (rows: ChartRow[], meta: ExportMeta): string => {
+  const names = meta.games.map(game => game.name);
+  const lines = [
+    ['date', ...names].map(escapeCsv).join(','),
+    ...toExportRows(rows, names).map(row =>
+      ['date', ...names].map(column => row[column] === null ? '' : String(row[column])).join(',')
+    ),
+  ];
+  return lines.join('\n') + '\n';
+};
+
+export const toJson = (rows: ChartRow[], meta: ExportMeta): string =>
+  JSON.stringify({
+    start: new Date(meta.start).toISOString(),
+    end: new Date(meta.end).toISOString(),
+    games: meta.games,
+    rows: toExportRows(rows, meta.games.map(game => game.name)),
+  }, null, 2);
+
+// e.g. steam-compare_2024-01-01_2024-06-30.csv
+export const exportFileName = (meta: Pick<ExportMeta, 'start' | 'end'>, extension: string) => {
+  const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return `steam-compare_${day(meta.start)}_${day(meta.end)}.${extension}`;
+};
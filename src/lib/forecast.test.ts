@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { forecastSeries } from './forecast';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const series = (counts: number[], stepMs: number) =>
+  counts.map((count, i) => ({ date: START + i * stepMs, count }));
+
+describe('forecastSeries', () => {
+  it('projects one point per step over the horizon', () => {
+    const forecast = forecastSeries(series([100, 110, 120, 130], DAY), 'linear', 7);
+
+    expect(forecast).toHaveLength(8);
+    expect(forecast[0]).toEqual({ date: START + 3 * DAY, value: 130, lower: 130, upper: 130 });
+    expect(forecast[7]).toMatchObject({ date: START + 10 * DAY, value: 200 });
+  });
+
+  it('projects at least one step when a bucket is longer than the horizon', () => {
+    const forecast = forecastSeries(series([100, 110, 120, 130], 30 * DAY), 'linear', 7);
+
+    expect(forecast).toHaveLength(2);
+    expect(forecast[1]).toMatchObject({ date: START + 4 * 30 * DAY, value: 140 });
+  });
+});
@@ -0,0 +1,215 @@
+import type { ChartRow } from './chartData';
+import type { HistoricalPoint } from './types';
+
+export type ForecastModel = 'linear' | 'exponential' | 'seasonal';
+
+// 'off' disables the overlay
+export type ForecastSetting = 'off' | ForecastModel;
+
+export const FORECAST_SETTINGS: ForecastSetting[] = ['off', 'linear', 'exponential', 'seasonal'];
+
+export const FORECAST_LABELS: Record<ForecastSetting, string> = {
+  off: 'Off',
+  linear: 'Linear trend',
+  exponential: 'Exponential growth/decay',
+  seasonal: 'Trend + weekly/daily seasonality',
+};
+
+// Forecast horizon in days
+export type ForecastHorizon = 7 | 30 | 90 | 180;
+
+export const FORECAST_HORIZONS: ForecastHorizon[] = [7, 30, 90, 180];
+
+export type ForecastPoint = {
+  date: number;
+  value: number;
+  lower: number;
+  upper: number;
+};
+
+export type BacktestResult = {
+  // Mean absolute percentage error on the held-out points
+  mape: number | null;
+  rmse: number;
+  // Predictions for the held-out points, for drawing against the actuals
+  predictions: HistoricalPoint[];
+};
+
+type FittedModel = {
+  predict: (date: number) => number;
+  // Standard deviation of the in-sample residuals
+  residualStd: number;
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// 95% confidence
+const Z = 1.96;
+
+// Ordinary least squares for y = a + b * x
+const fitLine = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  const slope = variance === 0 ? 0 : covariance / variance;
+  return { intercept: meanY - slope * meanX, slope };
+};
+
+const std = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+};
+
+// Seasonal slot: hour of the week for sub-daily data, else day of the week (UTC)
+const seasonalSlot = (date: number, stepMs: number) => {
+  const day = new Date(date).getUTCDay();
+  return stepMs < DAY ? day * 24 + new Date(date).getUTCHours() : day;
+};
+
+// Typical spacing between consecutive points
+export const estimateStep = (points: HistoricalPoint[]) => {
+  const gaps = points.slice(1).map((point, i) => point.date - points[i].date).sort((a, b) => a - b);
+  return gaps.length > 0 ? Math.max(gaps[Math.floor(gaps.length / 2)], HOUR) : DAY;
+};
+
+const fitModel = (points: HistoricalPoint[], model: ForecastModel, stepMs: number): FittedModel => {
+  // Work in days from the first point to keep the numbers well-conditioned
+  const origin = points[0].date;
+  const xs = points.map(point => (point.date - origin) / DAY);
+  const ys = points.map(point => point.count);
+
+  let predict: (date: number) => number;
+
+  if (model === 'exponential') {
+    // Linear fit of log(count); zero counts are nudged so log stays finite
+    const { intercept, slope } = fitLine(xs, ys.map(y => Math.log(Math.max(y, 1))));
+    predict = date => Math.exp(intercept + slope * ((date - origin) / DAY));
+  } else {
+    const { intercept, slope } = fitLine(xs, ys);
+    const trend = (date: number) => intercept + slope * ((date - origin) / DAY);
+
+    if (model === 'seasonal') {
+      // Average residual per weekly (and daily) slot on top of the trend
+      const sums = new Map<number, { sum: number; count: number }>();
+      points.forEach(point => {
+        const slot = seasonalSlot(point.date, stepMs);
+        const entry = sums.get(slot) ?? { sum: 0, count: 0 };
+        entry.sum += point.count - trend(point.date);
+        entry.count += 1;
+        sums.set(slot, entry);
+      });
+      predict = date => {
+        const entry = sums.get(seasonalSlot(date, stepMs));
+        return trend(date) + (entry ? entry.sum / entry.count : 0);
+      };
+    } else {
+      predict = trend;
+    }
+  }
+
+  const residuals = points.map(point => point.count - predict(point.date));
+  return { predict, residualStd: std(residuals) };
+};
+
+// Project a series `horizonDays` past its last point. The band widens with
+// the square root of the number of steps ahead.
+export const forecastSeries = (
+  points: HistoricalPoint[],
+  model: ForecastModel,
+  horizonDays: number
+): ForecastPoint[] => {
+  if (points.length < 3) return [];
+
+  const sorted = [...points].sort((a, b) => a.date - b.date);
+  const stepMs = estimateStep(sorted);
+  const fitted = fitModel(sorted, model, stepMs);
+  const last = sorted[sorted.length - 1];
+
+  // Start from the last actual value so the dashed line joins the series
+  const forecast: ForecastPoint[] = [{ date: last.date, value: last.count, lower: last.count, upper: last.count }];
+  // At least one step, even when the buckets are longer than the horizon
+  const steps = Math.max(Math.floor((horizonDays * DAY) / stepMs), 1);
+  for (let step = 1; step <= steps; step++) {
+    const date = last.date + step * stepMs;
+    const value = Math.max(fitted.predict(date), 0);
+    const margin = Z * fitted.residualStd * Math.sqrt(1 + step / sorted.length);
+    forecast.push({
+      date,
+      value: Math.round(value),
+      lower: Math.round(Math.max(value - margin, 0)),
+      upper: Math.round(value + margin),
+    });
+  }
+  return forecast;
+};
+
+// Fit on the first part of the series and score predictions for the rest
+export const backtest = (
+  points: HistoricalPoint[],
+  model: ForecastModel,
+  holdoutFraction = 0.2
+): BacktestResult | null => {
+  const sorted = [...points].sort((a, b) => a.date - b.date);
+  const split = Math.floor(sorted.length * (1 - holdoutFraction));
+  const training = sorted.slice(0, split);
+  const holdout = sorted.slice(split);
+  if (training.length < 3 || holdout.length === 0) return null;
+
+  const fitted = fitModel(training, model, estimateStep(training));
+  const predictions = holdout.map(point => ({ date: point.date, count: Math.round(Math.max(fitted.predict(point.date), 0)) }));
+
+  const errors = holdout.map((point, i) => predictions[i].count - point.count);
+  const percentErrors = holdout
+    .map((point, i) => point.count > 0 ? Math.abs(errors[i]) / point.count : null)
+    .filter((value): value is number => value !== null);
+
+  return {
+    mape: percentErrors.length > 0 ? (percentErrors.reduce((sum, value) => sum + value, 0) / percentErrors.length) * 100 : null,
+    rmse: Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / errors.length),
+    predictions,
+  };
+};
+
+// Row keys for a game's forecast line, its confidence band and backtest
+export const forecastKeys = (name: string) => ({
+  value: `${name} (forecast)`,
+  lower: `${name} (forecast low)`,
+  upper: `${name} (forecast high)`,
+  backtest: `${name} (backtest)`,
+});
+
+// Add forecast and backtest columns to chart rows, creating rows for dates
+// past the end of the data
+export const mergeForecasts = (
+  rows: ChartRow[],
+  series: { name: string; forecast: ForecastPoint[]; backtest: HistoricalPoint[] }[]
+): ChartRow[] => {
+  const byDate = new Map(rows.map(row => [row.date, { ...row }]));
+  const rowAt = (date: number) => {
+    if (!byDate.has(date)) byDate.set(date, { date });
+    return byDate.get(date)!;
+  };
+
+  series.forEach(({ name, forecast, backtest: predictions }) => {
+    const keys = forecastKeys(name);
+    forecast.forEach(point => {
+      const row = rowAt(point.date);
+      row[keys.value] = point.value;
+      row[keys.lower] = point.lower;
+      row[keys.upper] = point.upper;
+    });
+    predictions.forEach(point => {
+      rowAt(point.date)[keys.backtest] = point.count;
+    });
+  });
+
+  return Array.from(byDate.values()).sort((a, b) => a.date - b.date);
+};
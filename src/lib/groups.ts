@@ -0,0 +1,63 @@
+import type { HistoricalPoint, SelectedGame } from './types';
+
+// How the members of a group are combined into one series
+export type GroupReducer = 'sum' | 'mean' | 'median';
+
+export const GROUP_REDUCERS: GroupReducer[] = ['sum', 'mean', 'median'];
+
+export const GROUP_REDUCER_LABELS: Record<GroupReducer, string> = {
+  sum: 'Total',
+  mean: 'Average',
+  median: 'Median',
+};
+
+// A member's value at `date`, interpolated linearly between its neighbours
+// so members sampled at different times line up. Undefined outside the
+// member's own span: a game that hasn't launched yet contributes nothing.
+const valueAt = (points: HistoricalPoint[], date: number, cursor: { index: number }): number | undefined => {
+  if (points.length === 0 || date < points[0].date || date > points[points.length - 1].date) return undefined;
+
+  while (cursor.index < points.length - 1 && points[cursor.index + 1].date <= date) cursor.index++;
+  const before = points[cursor.index];
+  if (before.date === date) return before.count;
+
+  const after = points[cursor.index + 1];
+  const ratio = (date - before.date) / (after.date - before.date);
+  return before.count + (after.count - before.count) * ratio;
+};
+
+const reduceValues = (values: number[], reducer: GroupReducer): number => {
+  switch (reducer) {
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'mean':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    }
+  }
+};
+
+// Combine member series into one, on the union of their timestamps. Gaps in
+// a member are filled by interpolation, so the total doesn't dip wherever
+// one member happens to have no sample.
+export const combineSeries = (members: HistoricalPoint[][], reducer: GroupReducer): HistoricalPoint[] => {
+  const sorted = members
+    .filter(points => points.length > 0)
+    .map(points => [...points].sort((a, b) => a.date - b.date));
+  const timeline = [...new Set(sorted.flatMap(points => points.map(point => point.date)))].sort((a, b) => a - b);
+  const cursors = sorted.map(() => ({ index: 0 }));
+
+  return timeline.flatMap(date => {
+    const values = sorted
+      .map((points, index) => valueAt(points, date, cursors[index]))
+      .filter((value): value is number => value !== undefined);
+    return values.length > 0 ? [{ date, count: Math.round(reduceValues(values, reducer)) }] : [];
+  });
+};
+
+// Group series use negative ids so they never collide with an appid
+export const groupSeriesId = (index: number) => -(index + 1);
+export const isGroupSeries = (game: Pick<SelectedGame, 'id'>) => game.id < 0;
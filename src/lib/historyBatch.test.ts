@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_BATCH_APPIDS, streamHistoryBatch, type HistoryBatchResult } from './historyBatch';
+
+// Answers each batch with one line per appid, failing appid 13 on its own
+// and the whole batch when `rejectBatch` says so
+const serveBatches = (rejectBatch: (appids: string[]) => boolean = () => false) => {
+  const batches: string[][] = [];
+  vi.stubGlobal('fetch', async (url: string) => {
+    const appids = new URL(url, 'http://localhost').searchParams.get('appids')!.split(',');
+    batches.push(appids);
+    if (rejectBatch(appids)) {
+      return Response.json({ error: 'At most 50 AppIDs per batch', code: 'bad_input' }, { status: 400 });
+    }
+    const lines = appids.map(appid => JSON.stringify(appid === '13'
+      ? { appid: 13, error: 'Not tracked', code: 'not_tracked' }
+      : { appid: Number(appid), game: { id: Number(appid), name: `App ${appid}`, tiny_image: '' }, data: [] }));
+    return new Response(`${lines.join('\n')}\n`);
+  });
+  return batches;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+describe('streamHistoryBatch', () => {
+  it(`requests at most ${MAX_BATCH_APPIDS} games at a time`, async () => {
+    const batches = serveBatches();
+    const results: HistoryBatchResult[] = [];
+
+    await streamHistoryBatch(ids(120), result => results.push(result));
+
+    expect(batches.map(batch => batch.length)).toEqual([50, 50, 20]);
+    expect(results.map(result => result.appid)).toEqual(ids(120));
+    expect(results.filter(result => 'error' in result)).toEqual([{ appid: 13, error: 'Not tracked', code: 'not_tracked' }]);
+  });
+
+  it('finishes the other batches before reporting a rejected one', async () => {
+    serveBatches(appids => appids.includes('60'));
+    const results: HistoryBatchResult[] = [];
+
+    await expect(streamHistoryBatch(ids(120), result => results.push(result))).rejects.toMatchObject({ code: 'bad_input' });
+    expect(results).toHaveLength(70);
+    expect(results.some(result => result.appid === 60)).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { ApiRequestError, type ApiErrorCode } from './apiErrors';
+import type { AggregatedPoint } from './chartData';
+import type { DataQuality } from './dataQuality';
+import type { Game } from './types';
+
+// One line of the /api/history/batch NDJSON stream, written as soon as
+// that game's history is ready
+export type HistoryBatchResult =
+  | { appid: number; game: Game; data: AggregatedPoint[]; quality: DataQuality; stale: boolean; fetchedAt: number }
+  | { appid: number; error: string; code?: ApiErrorCode };
+
+export const MAX_BATCH_APPIDS = 50;
+export const BATCH_CONCURRENCY = 4;
+
+// Run `task` over every item with at most `limit` running at once
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+// One batch request, calling `onResult` for each game as its line arrives.
+// Throws ApiRequestError when the request as a whole is rejected.
+const streamBatch = async (
+  appids: number[],
+  onResult: (result: HistoryBatchResult) => void,
+  { points, signal }: { points?: number; signal?: AbortSignal }
+): Promise<void> => {
+  const params = new URLSearchParams({ appids: appids.join(',') });
+  if (points !== undefined) params.set('points', String(points));
+  const res = await fetch(`/api/history/batch?${params}`, { signal });
+
+  if (!res.ok || !res.body) {
+    const json = await res.json().catch(() => null);
+    throw new ApiRequestError(json?.error ?? `Request failed with ${res.status}`, json?.code, res.status);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) onResult(JSON.parse(line));
+    }
+  }
+
+  if (buffer.trim()) onResult(JSON.parse(buffer));
+};
+
+// Request histories in batches of at most MAX_BATCH_APPIDS, one after the
+// other, and call `onResult` for each game as its line arrives. A batch
+// rejected as a whole doesn't stop the rest; the first such rejection is
+// thrown as an ApiRequestError once every batch has been tried.
+export const streamHistoryBatch = async (
+  appids: number[],
+  onResult: (result: HistoryBatchResult) => void,
+  { points, signal }: { points?: number; signal?: AbortSignal } = {}
+): Promise<void> => {
+  let rejection: unknown;
+
+  for (let start = 0; start < appids.length; start += MAX_BATCH_APPIDS) {
+    try {
+      await streamBatch(appids.slice(start, start + MAX_BATCH_APPIDS), onResult, { points, signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      rejection ??= error;
+    }
+  }
+
+  if (rejection !== undefined) throw rejection;
+};
@@ -0,0 +1,223 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TaskScheduler } from './historyCache';
+
+// A stand-in for SteamCharts: each game answers with its entry in `replies`,
+// after `delayMs` when set, and games without one are not tracked
+type Reply = { status?: number; body?: unknown; delayMs?: number };
+const replies = new Map<string, Reply>();
+const requests: { appid: string; userAgent?: string }[] = [];
+
+let server: Server;
+let history: typeof import('./historyCache');
+let store: typeof import('./store');
+
+const NOW = Date.UTC(2024, 0, 1);
+
+const points = (count: number) => [{ date: NOW - 1000, count }];
+const serve = (appid: string, count: number) => replies.set(appid, { body: [[NOW - 1000, count]] });
+const failWith = (appid: string, status: number) => replies.set(appid, { status });
+
+// Collects background work instead of running it, so tests decide when
+const collectTasks = () => {
+  const tasks: (() => Promise<void>)[] = [];
+  const schedule: TaskScheduler = task => tasks.push(task);
+  return { tasks, schedule };
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const appid = /^\/app\/(\d+)\/chart-data\.json$/.exec(req.url ?? '')?.[1] ?? '';
+    requests.push({ appid, userAgent: req.headers['user-agent'] });
+    const reply = replies.get(appid);
+    if (!reply) {
+      res.writeHead(404).end();
+      return;
+    }
+    const { status = 200, body, delayMs = 0 } = reply;
+    setTimeout(() => {
+      // Retry-After: 0 keeps the upstream client's retries from backing off
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body ?? null));
+    }, delayMs);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  // Read when the modules load
+  vi.stubEnv('STEAMCHARTS_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv('STEAMCHARTS_TIMEOUT_MS', '100');
+  vi.stubEnv('UPSTREAM_MIN_INTERVAL_MS', '1');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  // Fresh modules, so the upstream client's request spacing doesn't carry
+  // over from a test whose clock ran days ahead
+  vi.resetModules();
+  history = await import('./historyCache');
+  store = await import('./store');
+
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  store.setCacheStore(store.createMemoryStore());
+  replies.clear();
+  requests.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('getHistory', () => {
+  it('fetches a missing history and serves it fresh afterwards', async () => {
+    serve('730', 10);
+
+    const first = await history.getHistory('730');
+    vi.setSystemTime(NOW + history.HISTORY_TTL_MS);
+    const second = await history.getHistory('730');
+
+    expect(first).toMatchObject({ data: points(10), fetchedAt: NOW, stale: false });
+    expect(second).toEqual(first);
+    expect(requests).toEqual([{ appid: '730', userAgent: expect.stringContaining('Mozilla') }]);
+  });
+
+  it('serves a stale snapshot and refreshes it in the background', async () => {
+    serve('730', 10);
+    await history.getHistory('730');
+
+    serve('730', 20);
+    vi.setSystemTime(NOW + history.HISTORY_TTL_MS + 1);
+    const { tasks, schedule } = collectTasks();
+    const stale = await history.getHistory('730', schedule);
+
+    expect(stale).toMatchObject({ data: points(10), stale: true });
+    expect(tasks).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+
+    await tasks[0]();
+    expect(await history.getHistory('730')).toMatchObject({ data: points(20), stale: false });
+  });
+
+  it('keeps the stale snapshot when the background refresh fails', async () => {
+    serve('730', 10);
+    await history.getHistory('730');
+
+    failWith('730', 503);
+    vi.setSystemTime(NOW + history.HISTORY_TTL_MS + 1);
+    const { tasks, schedule } = collectTasks();
+    await history.getHistory('730', schedule);
+    await tasks[0]();
+
+    expect(await history.getHistory('730', schedule)).toMatchObject({ data: points(10), stale: true });
+  });
+
+  it('refetches a snapshot past the revalidation window', async () => {
+    serve('730', 10);
+    await history.getHistory('730');
+
+    serve('730', 20);
+    vi.setSystemTime(NOW + history.HISTORY_TTL_MS + history.HISTORY_SWR_MS + 1);
+    expect(await history.getHistory('730')).toMatchObject({ data: points(20), stale: false });
+  });
+
+  it('serves the last good snapshot when the upstream is down', async () => {
+    serve('730', 10);
+    await history.getHistory('730');
+
+    failWith('730', 502);
+    vi.setSystemTime(NOW + history.HISTORY_TTL_MS + history.HISTORY_SWR_MS + 1);
+    expect(await history.getHistory('730')).toMatchObject({ data: points(10), fetchedAt: NOW, stale: true });
+  });
+
+  it('retries a failing upstream before giving up when nothing is cached', async () => {
+    failWith('730', 500);
+
+    await expect(history.getHistory('730')).rejects.toMatchObject({ code: 'upstream_down' });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('gives up on an upstream that does not answer in time', async () => {
+    replies.set('730', { body: [[NOW - 1000, 10]], delayMs: 1000 });
+
+    await expect(history.getHistory('730')).rejects.toMatchObject({ code: 'upstream_down', message: expect.stringMatching(/timed out/) });
+  });
+
+  it('reports games SteamCharts does not track', async () => {
+    await expect(history.getHistory('730')).rejects.toMatchObject({ code: 'not_tracked' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it.each([
+    ['something that is not JSON', '<html>'],
+    ['JSON of the wrong shape', { data: [] }],
+  ])('rejects %s', async (_, body) => {
+    replies.set('730', { body });
+
+    await expect(history.getHistory('730')).rejects.toMatchObject({ code: 'invalid_response' });
+  });
+
+  it('shares one upstream fetch between concurrent requests', async () => {
+    serve('730', 10);
+
+    const [first, second] = await Promise.all([history.getHistory('730'), history.getHistory('730')]);
+
+    expect(first.data).toEqual(second.data);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('historyHeaders and isNotModified', () => {
+  const request = (headers: Record<string, string>) => new Request('http://localhost/api/history', { headers });
+
+  it('keeps the ETag while the upstream sends the same data, and moves Last-Modified on', async () => {
+    serve('730', 10);
+    const first = history.historyHeaders(await history.getHistory('730'));
+
+    vi.setSystemTime(NOW + history.HISTORY_TTL_MS + history.HISTORY_SWR_MS + 1);
+    const same = history.historyHeaders(await history.getHistory('730'));
+    serve('730', 20);
+    vi.setSystemTime(NOW + 2 * (history.HISTORY_TTL_MS + history.HISTORY_SWR_MS + 1));
+    const changed = history.historyHeaders(await history.getHistory('730'));
+
+    expect(requests).toHaveLength(3);
+    expect(same.ETag).toBe(first.ETag);
+    expect(same['Last-Modified']).not.toBe(first['Last-Modified']);
+    expect(changed.ETag).not.toBe(first.ETag);
+  });
+
+  it('gives each variant its own ETag', async () => {
+    serve('730', 10);
+    const cached = await history.getHistory('730');
+
+    expect(history.historyHeaders(cached, 'a').ETag).not.toBe(history.historyHeaders(cached).ETag);
+    expect(history.historyHeaders(cached, 'a').ETag).not.toBe(history.historyHeaders(cached, 'b').ETag);
+  });
+
+  it('answers 304 for a matching If-None-Match', async () => {
+    serve('730', 10);
+    const cached = await history.getHistory('730');
+    const { ETag: etag } = history.historyHeaders(cached);
+
+    expect(history.isNotModified(request({ 'If-None-Match': etag }), cached, etag)).toBe(true);
+    expect(history.isNotModified(request({ 'If-None-Match': `W/"other", ${etag}` }), cached, etag)).toBe(true);
+    expect(history.isNotModified(request({ 'If-None-Match': 'W/"other"' }), cached, etag)).toBe(false);
+    expect(history.isNotModified(request({}), cached, etag)).toBe(false);
+  });
+
+  it('falls back to If-Modified-Since', async () => {
+    serve('730', 10);
+    const cached = await history.getHistory('730');
+    const { ETag: etag, 'Last-Modified': lastModified } = history.historyHeaders(cached);
+
+    expect(history.isNotModified(request({ 'If-Modified-Since': lastModified }), cached, etag)).toBe(true);
+    expect(history.isNotModified(request({ 'If-Modified-Since': new Date(NOW - 1000).toUTCString() }), cached, etag)).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { getCacheStore } from './store';
+import { fetchChartData } from './steamcharts';
+import type { HistoricalPoint } from './types';
+
+export type HistorySnapshot = {
+  data: HistoricalPoint[];
+  fetchedAt: number;
+  etag: string;
+};
+
+export type CachedHistory = HistorySnapshot & {
+  // True when the snapshot is older than the freshness TTL, either because
+  // it is being revalidated in the background or because the upstream is down
+  stale: boolean;
+};
+
+// Runs work after the response has been sent (Next's `after` in routes)
+export type TaskScheduler = (task: () => Promise<void>) => void;
+
+const seconds = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed * 1000 : fallback * 1000;
+};
+
+// How long a snapshot counts as fresh, and how much longer it may be served
+// while a background refresh runs
+export const HISTORY_TTL_MS = seconds(process.env.HISTORY_TTL_SECONDS, 15 * 60);
+export const HISTORY_SWR_MS = seconds(process.env.HISTORY_SWR_SECONDS, 24 * 60 * 60);
+
+const keyFor = (appid: string) => `history:${appid}`;
+
+const computeEtag = (data: HistoricalPoint[]) =>
+  `W/"${createHash('sha1').update(JSON.stringify(data)).digest('base64url')}"`;
+
+// Concurrent requests for the same game share a single upstream fetch
+const inflight = new Map<string, Promise<HistorySnapshot>>();
+
+const refresh = (appid: string): Promise<HistorySnapshot> => {
+  const pending = inflight.get(appid);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const data = await fetchChartData(appid);
+    const snapshot: HistorySnapshot = { data, fetchedAt: Date.now(), etag: computeEtag(data) };
+    await getCacheStore().set(keyFor(appid), snapshot);
+    return snapshot;
+  })().finally(() => inflight.delete(appid));
+
+  inflight.set(appid, request);
+  return request;
+};
+
+const runDetached: TaskScheduler = (task) => {
+  void task();
+};
+
+// Return the history for a game, preferring the stored snapshot:
+//   fresh            -> serve it
+//   within SWR window -> serve it, refresh in the background
+//   too old / missing -> refresh now, falling back to the old snapshot if the
+//                        upstream fails
+export const getHistory = async (
+  appid: string,
+  schedule: TaskScheduler = runDetached
+): Promise<CachedHistory> => {
+  const snapshot = await getCacheStore().get<HistorySnapshot>(keyFor(appid));
+  const age = snapshot ? Date.now() - snapshot.fetchedAt : Infinity;
+
+  if (snapshot && age <= HISTORY_TTL_MS) {
+    return { ...snapshot, stale: false };
+  }
+
+  if (snapshot && age <= HISTORY_TTL_MS + HISTORY_SWR_MS) {
+    schedule(async () => {
+      try {
+        await refresh(appid);
+      } catch (error) {
+        console.error(`Background refresh failed for ${appid}`, error);
+      }
+    });
+    return { ...snapshot, stale: true };
+  }
+
+  try {
+    return { ...(await refresh(appid)), stale: false };
+  } catch (error) {
+    if (!snapshot) throw error;
+    console.error(`Upstream failed for ${appid}, serving last good snapshot`, error);
+    return { ...snapshot, stale: true };
+  }
+};
+
+// Validators and caching headers for a response built from `history`.
+// `variant` tells apart the different responses built from one snapshot.
+export const historyHeaders = (history: CachedHistory, variant?: string): Record<string, string> => ({
+  'ETag': variant ? history.etag.replace(/"$/, `:${variant}"`) : history.etag,
+  'Last-Modified': new Date(history.fetchedAt).toUTCString(),
+  'Cache-Control': `public, max-age=${HISTORY_TTL_MS / 1000}, stale-while-revalidate=${HISTORY_SWR_MS / 1000}`,
+});
+
+// Whether the copy the client already holds is still current, so it can
+// revalidate cheaply with If-None-Match or If-Modified-Since
+export const isNotModified = (request: Request, history: CachedHistory, etag: string): boolean => {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  return ifNoneMatch
+    ? ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*')
+    : ifModifiedSince !== null && Math.floor(history.fetchedAt / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateSeries, mergeSeries, processChartData, REDUCERS, type IntervalChoice } from './chartData';
+import { lttb } from './downsample';
+import { aggregateHistory } from './historyQuery';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const START = Date.UTC(2024, 0, 1);
+
+// Ten-minute samples over 60 days with a daily cycle and some noise
+const history = Array.from({ length: 60 * 144 }, (_, i) => ({
+  date: START + i * 10 * MINUTE,
+  count: Math.round(1000 + 400 * Math.sin((i / 144) * 2 * Math.PI) + ((i * 7919) % 97)),
+}));
+
+// The rows the page draws from the served buckets, and the rows /api/export
+// computes from the full history
+const chartRows = (from: number, to: number, interval: IntervalChoice, reducer: typeof REDUCERS[number]) =>
+  mergeSeries([{ name: 'Game', aggregatedData: aggregateHistory(history, from, to, { reducer, interval }, 1500) }]);
+const exportRows = (from: number, to: number, interval: IntervalChoice, reducer: typeof REDUCERS[number]) =>
+  processChartData([{ name: 'Game', data: history }], from, to, { reducer, interval });
+
+describe('aggregateHistory', () => {
+  it.each(REDUCERS)('gives the chart the same %s buckets as the export', reducer => {
+    const from = START + 5 * DAY + 3 * 60 * MINUTE;
+    const to = START + 50 * DAY;
+
+    for (const interval of ['auto', 'hourly', 'daily', 'weekly'] as IntervalChoice[]) {
+      expect(chartRows(from, to, interval, reducer)).toEqual(exportRows(from, to, interval, reducer));
+    }
+  });
+
+  it('returns raw ranges unbucketed', () => {
+    const from = START + 10 * DAY;
+    const to = from + DAY;
+
+    expect(chartRows(from, to, 'auto', 'band')).toEqual(exportRows(from, to, 'auto', 'band'));
+    expect(chartRows(from, to, 'auto', 'mean')).toHaveLength(145);
+  });
+
+  it('differs from bucketing a downsampled series', () => {
+    const from = START;
+    const to = START + 59 * DAY;
+    const overview = aggregateSeries(lttb(history, 500), from, to, DAY, 'mean');
+
+    expect(mergeSeries([{ name: 'Game', aggregatedData: overview }])).not.toEqual(exportRows(from, to, 'daily', 'mean'));
+  });
+});
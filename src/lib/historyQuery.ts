@@ -0,0 +1,64 @@
+import { aggregateSeries, resolveInterval, type AggregatedPoint, type AggregationOptions } from './chartData';
+import { lttb } from './downsample';
+import type { HistoricalPoint } from './types';
+
+// Optional range and resolution of a history request:
+//   /api/history?appid=730&from=2024-01-01&to=2024-06-30&points=1000
+export type HistoryQuery = {
+  from: number | null;
+  to: number | null;
+  points: number | null;
+};
+
+export const MIN_POINTS = 3;
+export const MAX_POINTS = 10_000;
+
+// Accepts epoch milliseconds or anything Date.parse understands (2024-01-31)
+export const parseTimeParam = (value: string | null): number | null => {
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+// Read the query, or return an error message when a parameter is invalid
+export const parseHistoryQuery = (params: URLSearchParams): HistoryQuery | string => {
+  const from = parseTimeParam(params.get('from'));
+  const to = parseTimeParam(params.get('to'));
+  const points = params.has('points') ? Number(params.get('points')) : null;
+
+  if (params.get('from') && from === null) return '"from" is not a valid date';
+  if (params.get('to') && to === null) return '"to" is not a valid date';
+  if (from !== null && to !== null && from > to) return '"from" must be before "to"';
+  if (points !== null && (!Number.isInteger(points) || points < MIN_POINTS || points > MAX_POINTS)) {
+    return `"points" must be a whole number from ${MIN_POINTS} to ${MAX_POINTS}`;
+  }
+  return { from, to, points };
+};
+
+export const isFullHistory = ({ from, to, points }: HistoryQuery) =>
+  from === null && to === null && points === null;
+
+// Suffix that tells apart the responses to different queries of one snapshot
+export const queryKey = ({ from, to, points }: HistoryQuery) =>
+  [from ?? '', to ?? '', points ?? ''].join('-');
+
+// Cut the series to the requested range and downsample it to at most
+// `points` points
+export const sliceHistory = (data: HistoricalPoint[], { from, to, points }: HistoryQuery): AggregatedPoint[] => {
+  const inRange = data.filter(point => (from === null || point.date >= from) && (to === null || point.date <= to));
+  return points === null ? inRange : lttb(inRange, points);
+};
+
+// The chart's buckets over a range of a full-resolution series, so every
+// reducer sees the real points rather than downsampled stand-ins. Raw ranges
+// aren't bucketed and are downsampled to `points` instead.
+export const aggregateHistory = (
+  data: HistoricalPoint[],
+  from: number,
+  to: number,
+  { reducer, interval }: AggregationOptions,
+  points: number | null
+): AggregatedPoint[] => {
+  const intervalMs = resolveInterval(interval, from, to);
+  return aggregateSeries(intervalMs === 0 ? sliceHistory(data, { from, to, points }) : data, from, to, intervalMs, reducer);
+};
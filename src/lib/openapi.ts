@@ -0,0 +1,246 @@
+import { API_ERROR_STATUS, type ApiErrorCode } from './apiErrors';
+import { MAX_POINTS, MIN_POINTS } from './historyQuery';
+import { DEFAULT_PAGE_SIZE, DEFAULT_RATE_LIMIT, MAX_PAGE_SIZE } from './publicApi';
+
+// The OpenAPI 3.1 document for /api/v1, built from the table of operations
+// below and the limits the routes actually enforce, so it can't drift from
+// the code
+
+type Schema = Record<string, unknown>;
+
+type Parameter = {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  required?: boolean;
+  schema: Schema;
+};
+
+type Operation = {
+  path: string;
+  id: string;
+  summary: string;
+  parameters: Parameter[];
+  // Schema of `data` in the success envelope
+  data: Schema;
+  // Schema of `meta`, when the route sends one
+  meta?: Schema;
+  errors: ApiErrorCode[];
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const appidParam: Parameter = {
+  name: 'appid',
+  in: 'path',
+  description: 'Steam appid',
+  required: true,
+  schema: { type: 'string', pattern: '^\\d{1,10}$' },
+};
+
+const localeParams: Parameter[] = [
+  { name: 'cc', in: 'query', description: 'Two-letter store region', schema: { type: 'string', pattern: '^[A-Za-z]{2}$' } },
+  { name: 'l', in: 'query', description: 'Steam language name, e.g. english', schema: { type: 'string' } },
+];
+
+const timeParam = (name: string, description: string): Parameter => ({
+  name,
+  in: 'query',
+  description: `${description}, as epoch milliseconds or a date such as 2024-01-31`,
+  schema: { type: 'string' },
+});
+
+const schemas: Record<string, Schema> = {
+  Game: {
+    type: 'object',
+    required: ['id', 'name', 'tiny_image', 'releaseDate', 'comingSoon', 'genres', 'developers', 'price'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      tiny_image: { type: 'string', description: 'Image URL' },
+      releaseDate: { type: ['string', 'null'], description: 'As written by the store, e.g. "21 Aug, 2012"' },
+      comingSoon: { type: 'boolean' },
+      genres: { type: 'array', items: { type: 'string' } },
+      developers: { type: 'array', items: { type: 'string' } },
+      price: { type: ['string', 'null'], description: 'Formatted for the region, or "Free"' },
+    },
+  },
+  HistoryPoint: {
+    type: 'object',
+    required: ['date', 'count'],
+    properties: {
+      date: { type: 'integer', description: 'Epoch milliseconds' },
+      count: { type: 'integer' },
+      min: { type: 'integer', description: 'Lowest count among the points a downsampled point replaces' },
+      max: { type: 'integer', description: 'Highest count among the points a downsampled point replaces' },
+    },
+  },
+  TimeRange: {
+    type: 'object',
+    required: ['from', 'to'],
+    properties: { from: { type: 'integer' }, to: { type: 'integer' } },
+  },
+  DataQuality: {
+    type: 'object',
+    required: ['points', 'coverage', 'gaps', 'duplicates', 'zeroRuns', 'samplingChanges'],
+    properties: {
+      points: { type: 'integer' },
+      coverage: { type: 'number', description: 'Share of the history outside gaps, 0 to 1' },
+      gaps: { type: 'array', items: ref('TimeRange') },
+      duplicates: { type: 'integer', description: 'Repeated timestamps' },
+      zeroRuns: {
+        type: 'array',
+        items: { allOf: [ref('TimeRange'), { type: 'object', properties: { points: { type: 'integer' } } }] },
+      },
+      samplingChanges: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            date: { type: 'integer' },
+            before: { type: 'integer', description: 'Milliseconds between samples before' },
+            after: { type: 'integer', description: 'Milliseconds between samples after' },
+          },
+        },
+      },
+    },
+  },
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', enum: Object.keys(API_ERROR_STATUS) },
+          message: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const operations: Operation[] = [
+  {
+    path: '/games/{appid}',
+    id: 'getGame',
+    summary: 'Store details of a game',
+    parameters: [appidParam, ...localeParams],
+    data: ref('Game'),
+    errors: ['bad_input', 'not_tracked', 'upstream_down', 'rate_limited'],
+  },
+  {
+    path: '/games/{appid}/history',
+    id: 'getHistory',
+    summary: 'Player-count history, oldest first, paginated',
+    parameters: [
+      appidParam,
+      timeParam('from', 'Start of the range'),
+      timeParam('to', 'End of the range'),
+      {
+        name: 'points',
+        in: 'query',
+        description: 'Downsample the range to this many points (LTTB)',
+        schema: { type: 'integer', minimum: MIN_POINTS, maximum: MAX_POINTS },
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        description: 'Points per page',
+        schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+      },
+      { name: 'cursor', in: 'query', description: 'meta.nextCursor of the previous page', schema: { type: 'string' } },
+    ],
+    data: { type: 'array', items: ref('HistoryPoint') },
+    meta: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer' },
+        count: { type: 'integer', description: 'Points on this page' },
+        total: { type: 'integer', description: 'Points in the whole range' },
+        nextCursor: { type: ['string', 'null'] },
+        next: { type: ['string', 'null'], description: 'URL of the next page' },
+        stale: { type: 'boolean', description: 'Served from an old snapshot while the source is refreshed or down' },
+        fetchedAt: { type: 'integer' },
+        quality: ref('DataQuality'),
+      },
+    },
+    errors: ['bad_input', 'not_tracked', 'upstream_down', 'invalid_response', 'rate_limited'],
+  },
+  {
+    path: '/games/{appid}/players',
+    id: 'getPlayers',
+    summary: 'Players online right now',
+    parameters: [appidParam],
+    data: {
+      type: 'object',
+      required: ['appid', 'count', 'at'],
+      properties: { appid: { type: 'integer' }, count: { type: 'integer' }, at: { type: 'integer' } },
+    },
+    errors: ['bad_input', 'not_tracked', 'upstream_down', 'rate_limited'],
+  },
+  {
+    path: '/search',
+    id: 'searchGames',
+    summary: 'Search the store, or look up an appid or store link',
+    parameters: [
+      { name: 'term', in: 'query', description: 'Name, appid or store URL', required: true, schema: { type: 'string' } },
+      ...localeParams,
+    ],
+    data: { type: 'array', items: ref('Game') },
+    errors: ['bad_input', 'upstream_down', 'rate_limited'],
+  },
+];
+
+// Every route can also answer 401 and 500
+const errorResponses = (codes: ApiErrorCode[]) => {
+  const all: ApiErrorCode[] = [...codes, 'unauthorized', 'internal'];
+  const statuses = [...new Set(all.map(code => API_ERROR_STATUS[code]))].sort((a, b) => a - b);
+  return Object.fromEntries(statuses.map(status => [String(status), {
+    description: all.filter(code => API_ERROR_STATUS[code] === status).join(', '),
+    content: { 'application/json': { schema: ref('Error') } },
+  }]));
+};
+
+export const buildOpenApiDocument = (serverUrl: string) => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'Steam player charts API',
+    version: '1',
+    description: `Read-only access to player-count histories. Send an API key as \`X-API-Key\` or a bearer token `
+      + `when the server has keys configured. Clients get ${DEFAULT_RATE_LIMIT} requests per minute unless their key `
+      + `sets its own limit.`,
+  },
+  servers: [{ url: serverUrl }],
+  security: [{ apiKey: [] }, { bearer: [] }],
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      bearer: { type: 'http', scheme: 'bearer' },
+    },
+    schemas,
+  },
+  paths: Object.fromEntries(operations.map(operation => [operation.path, {
+    get: {
+      operationId: operation.id,
+      summary: operation.summary,
+      parameters: operation.parameters,
+      responses: {
+        200: {
+          description: 'OK',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['data'],
+                properties: { data: operation.data, ...(operation.meta ? { meta: operation.meta } : {}) },
+              },
+            },
+          },
+        },
+        ...errorResponses(operation.errors),
+      },
+    },
+  }])),
+});
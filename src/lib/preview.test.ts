@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { parseChartState } from './chartState';
+import { fullChartLink } from './preview';
+
+describe('fullChartLink', () => {
+  it('carries a range given as dates over to the page', () => {
+    const link = fullChartLink(new URLSearchParams('games=730,570&from=2024-01-01&to=2024-06-30&theme=light'));
+    const state = parseChartState(new URL(link, 'http://localhost').searchParams);
+
+    expect(state.games.map(game => game.id)).toEqual([730, 570]);
+    expect(state.start).toBe(Date.parse('2024-01-01'));
+    expect(state.end).toBe(Date.parse('2024-06-30'));
+  });
+
+  it('drops a range it cannot read', () => {
+    const link = fullChartLink(new URLSearchParams('games=730&from=soon&to=2024-06-30'));
+
+    expect(new URL(link, 'http://localhost').searchParams.has('from')).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import type { Metadata } from 'next';
+import { getDefaultRange, processChartData, resolveInterval, type ChartRow } from './chartData';
+import { parseChartState, serializeChartState, SERIES_COLORS, type ChartOptions } from './chartState';
+import { isStacked, BAR_INTERVAL } from './chartTypes';
+import { analyzeQuality, splitAtGaps, type TimeRange } from './dataQuality';
+import { combineSeries, groupSeriesId } from './groups';
+import { getHistory } from './historyCache';
+import { parseTimeParam } from './historyQuery';
+import { DEFAULT_IMAGE_SIZE } from './previewImage';
+import { applyScale, type ScaleMode } from './scaling';
+import { fetchAppDetails } from './steamStore';
+import { UpstreamError } from './upstream';
+
+// Comparisons rendered on the server for the embed widget and the preview
+// image. Both take the page's own query string, so any chart link can be
+// embedded or previewed as it is:
+//
+//   /embed?games=730,570&from=2024-01-01&to=2024-06-30&theme=light
+//
+// `from`/`to` may also be dates here. Groups are drawn as their combined
+// series only, and the X axis is always calendar time.
+
+export type PreviewSeries = {
+  id: number;
+  name: string;
+  color: string;
+  // Stretches between gaps in the history, drawn as separate lines like on
+  // the page
+  segments: TimeRange[];
+};
+
+export type Preview = {
+  series: PreviewSeries[];
+  // Aggregated and scaled like the page's chart rows
+  rows: ChartRow[];
+  start: number;
+  end: number;
+  options: ChartOptions;
+  // The scale actually drawn; stacked charts always show player counts
+  scale: ScaleMode;
+};
+
+export const MAX_PREVIEW_SERIES = 10;
+
+export type PreviewTheme = 'dark' | 'light';
+
+export const PREVIEW_THEMES: PreviewTheme[] = ['dark', 'light'];
+
+export type ThemeColors = {
+  background: string;
+  text: string;
+  muted: string;
+  grid: string;
+};
+
+export const THEME_COLORS: Record<PreviewTheme, ThemeColors> = {
+  dark: { background: '#0f172a', text: '#ffffff', muted: '#94a3b8', grid: '#334155' },
+  light: { background: '#ffffff', text: '#0f172a', muted: '#64748b', grid: '#e2e8f0' },
+};
+
+// Look of a widget: `theme`, a `bg` color (hex or `transparent`) to blend
+// into the host page, and `legend=0` to hide the legend
+export type PreviewStyle = {
+  theme: PreviewTheme;
+  colors: ThemeColors;
+  legend: boolean;
+};
+
+export const parsePreviewStyle = (params: URLSearchParams): PreviewStyle => {
+  const theme = PREVIEW_THEMES.find(option => option === params.get('theme')) ?? 'dark';
+  const bg = params.get('bg');
+  const background = bg === 'transparent' ? bg : bg && /^[0-9a-f]{6}$/i.test(bg) ? `#${bg}` : undefined;
+
+  return {
+    theme,
+    colors: { ...THEME_COLORS[theme], ...(background ? { background } : {}) },
+    legend: params.get('legend') !== '0',
+  };
+};
+
+// Next.js hands pages their query as an object; repeated keys become lists
+export const toSearchParams = (query: Record<string, string | string[] | undefined>) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach(item => params.append(key, item));
+  });
+  return params;
+};
+
+// Load every game and group member in the query and build the chart rows
+// the page would draw for it
+export const loadPreview = async (params: URLSearchParams): Promise<Preview> => {
+  const state = parseChartState(params);
+  const { options } = state;
+  if (state.games.length + state.groups.length === 0) {
+    throw new UpstreamError('bad_input', 'Pass the games to draw as "games", e.g. games=730,570');
+  }
+  // Each group member is a history to load, like a game of its own
+  if (state.games.length + state.groups.reduce((count, group) => count + group.appids.length, 0) > MAX_PREVIEW_SERIES) {
+    throw new UpstreamError('bad_input', `At most ${MAX_PREVIEW_SERIES} games can be drawn, counting group members`);
+  }
+
+  const appids = [...new Set([...state.games.map(game => game.id), ...state.groups.flatMap(group => group.appids)])];
+  const loaded = new Map(await Promise.all(appids.map(async appid => {
+    const [history, name] = await Promise.all([
+      getHistory(String(appid)),
+      // A missing name shouldn't fail the preview, fall back to the appid
+      fetchAppDetails(String(appid)).then(details => details.name, () => `App ${appid}`),
+    ]);
+    return [appid, { name, data: history.data, gaps: analyzeQuality(history.data).gaps }] as const;
+  })));
+
+  const games = [
+    ...state.games.map((game, index) => ({
+      id: game.id,
+      name: loaded.get(game.id)!.name,
+      color: game.color || SERIES_COLORS[index % SERIES_COLORS.length],
+      data: loaded.get(game.id)!.data,
+      gaps: loaded.get(game.id)!.gaps,
+    })),
+    ...state.groups.map((group, index) => ({
+      id: groupSeriesId(index),
+      name: group.name,
+      color: group.color || SERIES_COLORS[(state.games.length + index) % SERIES_COLORS.length],
+      data: combineSeries(group.appids.map(appid => loaded.get(appid)!.data), group.reducer),
+      // As on the page, combined series have no quality report to break at
+      gaps: [],
+    })),
+  ];
+
+  const defaultRange = getDefaultRange(games)!;
+  const start = parseTimeParam(params.get('from')) ?? defaultRange.start;
+  const end = parseTimeParam(params.get('to')) ?? defaultRange.end;
+
+  // Bars are always monthly and stacks always add up player counts
+  const interval = options.chartType === 'bar' ? BAR_INTERVAL : options.interval;
+  const scale: ScaleMode = isStacked(options.chartType) ? 'linear' : options.scale;
+  const rows = applyScale(processChartData(games, start, end, { ...options, interval }), games, scale);
+  const intervalMs = resolveInterval(interval, start, end);
+
+  return {
+    series: games.map(({ id, name, color, gaps }) => ({ id, name, color, segments: splitAtGaps(gaps, intervalMs) })),
+    rows,
+    start,
+    end,
+    options,
+    scale,
+  };
+};
+
+// Link from an embed to the same chart on the page. `from`/`to` may be dates
+// here, but the page only reads timestamps.
+export const fullChartLink = (params: URLSearchParams) => {
+  const page = new URLSearchParams(params);
+  (['from', 'to'] as const).forEach(name => {
+    const time = parseTimeParam(page.get(name));
+    if (time === null) page.delete(name);
+    else page.set(name, String(time));
+  });
+  return `/?${serializeChartState(parseChartState(page))}`;
+};
+
+// Open Graph and Twitter cards showing the preview image of the same query,
+// so shared links unfurl with the chart they open. The image URL is resolved
+// against the layout's metadataBase, never the request's Host header.
+export const previewMetadata = async (params: URLSearchParams): Promise<Metadata> => {
+  if (!params.has('games') && !params.has('group')) return {};
+
+  const image = `/api/preview?${params}`;
+
+  return {
+    openGraph: { images: [{ url: image, width: DEFAULT_IMAGE_SIZE.width, height: DEFAULT_IMAGE_SIZE.height }] },
+    twitter: { card: 'summary_large_image', images: [image] },
+  };
+};
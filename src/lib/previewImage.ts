@@ -0,0 +1,287 @@
+import { getDateFormat } from './chartData';
+import { isStacked } from './chartTypes';
+import { formatAxisValue } from './scaling';
+import { formatInTimeZone, LOCAL_TIME_ZONE } from './timezone';
+import type { Preview, PreviewStyle } from './preview';
+
+// Geometry of the preview image, computed once and drawn either as a plain
+// SVG document or by next/og for PNG. Shapes carry no text so that the PNG
+// renderer can lay labels out with its own font.
+
+export type ImageSize = {
+  width: number;
+  height: number;
+};
+
+// The usual Open Graph card size
+export const DEFAULT_IMAGE_SIZE: ImageSize = { width: 1200, height: 630 };
+export const MIN_IMAGE_SIZE = 200;
+export const MAX_IMAGE_SIZE = 2400;
+
+export type Shape = {
+  d: string;
+  stroke?: string;
+  strokeWidth?: number;
+  fill?: string;
+  fillOpacity?: number;
+};
+
+// Text centered vertically on `y`, aligned on `x` by `anchor`
+export type Label = {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  color: string;
+  anchor: 'start' | 'middle' | 'end';
+  bold?: boolean;
+};
+
+export type PreviewImage = ImageSize & {
+  background: string;
+  // Grid lines first, then the series
+  shapes: Shape[];
+  labels: Label[];
+};
+
+const PADDING = 32;
+const HEADER_HEIGHT = 72;
+const LEGEND_HEIGHT = 40;
+const Y_LABEL_WIDTH = 56;
+const X_LABEL_HEIGHT = 28;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Round step for about `count` ticks between 0 and `max`
+const niceStep = (max: number, count: number) => {
+  const raw = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].find(multiple => multiple * magnitude >= raw)! * magnitude;
+};
+
+// Connected runs of defined points as one SVG path
+const linePath = (points: ({ x: number; y: number } | null)[]) => {
+  let d = '';
+  let drawing = false;
+  points.forEach(point => {
+    if (!point) {
+      drawing = false;
+      return;
+    }
+    d += `${drawing ? 'L' : 'M'}${round(point.x)} ${round(point.y)}`;
+    drawing = true;
+  });
+  return d;
+};
+
+// Closed band between an upper and a lower edge, one polygon per run
+const bandPath = (upper: ({ x: number; y: number } | null)[], lower: ({ x: number; y: number } | null)[]) => {
+  const runs: number[][] = [];
+  upper.forEach((point, i) => {
+    if (!point || !lower[i]) return;
+    if (i > 0 && upper[i - 1] && lower[i - 1]) runs[runs.length - 1].push(i);
+    else runs.push([i]);
+  });
+  return runs.map(run => {
+    const top = run.map(i => `${round(upper[i]!.x)} ${round(upper[i]!.y)}`);
+    const bottom = [...run].reverse().map(i => `${round(lower[i]!.x)} ${round(lower[i]!.y)}`);
+    return `M${top.join('L')}L${bottom.join('L')}Z`;
+  }).join('');
+};
+
+export const layoutPreviewImage = (preview: Preview, style: PreviewStyle, size: ImageSize): PreviewImage => {
+  const { series, rows, start, end, options, scale } = preview;
+  const { colors } = style;
+  const type = options.chartType;
+  const stacked = isStacked(type);
+  const timeZone = options.timeZone === LOCAL_TIME_ZONE ? 'UTC' : options.timeZone;
+
+  const plot = {
+    x: PADDING + Y_LABEL_WIDTH,
+    y: PADDING + HEADER_HEIGHT,
+    width: size.width - PADDING * 2 - Y_LABEL_WIDTH,
+    height: size.height - PADDING * 2 - HEADER_HEIGHT - X_LABEL_HEIGHT - (style.legend ? LEGEND_HEIGHT : 0),
+  };
+
+  // Each series' value per row; stacks also get the running total below it
+  const values = series.map(game => rows.map(row => row[game.name] as number | undefined));
+  const totals = rows.map((_, i) => values.reduce((sum, column) => sum + (column[i] ?? 0), 0));
+  const edges = series.map((_, index) => rows.map((__, i) => {
+    if (!stacked) return { lower: 0, upper: values[index][i] };
+    const below = values.slice(0, index).reduce((sum, column) => sum + (column[i] ?? 0), 0);
+    const upper = below + (values[index][i] ?? 0);
+    return type === 'percent'
+      ? { lower: totals[i] > 0 ? below / totals[i] : 0, upper: totals[i] > 0 ? upper / totals[i] : 0 }
+      : { lower: below, upper };
+  }));
+
+  // Y axis: 0–100% for shares, powers of ten on log scales, round steps otherwise
+  const log = scale === 'log' && !stacked;
+  const defined = edges.flat().map(edge => edge.upper).filter((value): value is number => value !== undefined);
+  const positive = defined.filter(value => value > 0);
+  let yMin = 0;
+  let yMax: number;
+  let yTicks: number[];
+  if (type === 'percent') {
+    yMax = 1;
+    yTicks = [0, 0.25, 0.5, 0.75, 1];
+  } else if (log) {
+    const lowest = positive.length > 0 ? positive.reduce((min, value) => Math.min(min, value)) : 1;
+    yMin = 10 ** Math.floor(Math.log10(lowest));
+    yMax = 10 ** Math.ceil(Math.log10(positive.reduce((max, value) => Math.max(max, value), 10)));
+    if (yMax <= yMin) yMax = yMin * 10;
+    yTicks = Array.from({ length: Math.round(Math.log10(yMax / yMin)) + 1 }, (_, i) => yMin * 10 ** i);
+  } else {
+    const max = defined.reduce((top, value) => Math.max(top, value), 0);
+    const step = max > 0 ? niceStep(max, 4) : 1;
+    yMax = Math.max(step, Math.ceil(max / step) * step);
+    yTicks = Array.from({ length: Math.round(yMax / step) + 1 }, (_, i) => i * step);
+  }
+  const toY = (value: number) => log
+    ? plot.y + plot.height * (1 - Math.log10(Math.max(value, yMin) / yMin) / Math.log10(yMax / yMin))
+    : plot.y + plot.height * (1 - (value - yMin) / (yMax - yMin));
+
+  // X axis: bars sit in one slot per row, everything else on a time scale
+  const first = rows[0]?.date ?? start;
+  const last = rows[rows.length - 1]?.date ?? end;
+  const slot = plot.width / Math.max(rows.length, 1);
+  const toX = (date: number, i: number) => type === 'bar'
+    ? plot.x + slot * (i + 0.5)
+    : plot.x + (last > first ? (date - first) / (last - first) : 0.5) * plot.width;
+
+  const shapes: Shape[] = yTicks.map(tick => ({
+    d: `M${plot.x} ${round(toY(tick))}H${plot.x + plot.width}`,
+    stroke: colors.grid,
+    strokeWidth: 1,
+  }));
+
+  series.forEach((game, index) => {
+    const column = edges[index];
+    if (type === 'bar') {
+      const width = (slot * 0.8) / series.length;
+      const d = rows.map((row, i) => {
+        const value = column[i].upper;
+        if (value === undefined || value <= 0) return '';
+        const x = toX(row.date, i) - slot * 0.4 + width * index;
+        const y = toY(value);
+        return `M${round(x)} ${round(y)}h${round(width)}V${round(plot.y + plot.height)}h${round(-width)}Z`;
+      }).join('');
+      shapes.push({ d, fill: game.color });
+      return;
+    }
+
+    // Lines and areas break at gaps; stacks bridge them, as on the page
+    const segments = stacked ? [{ from: -Infinity, to: Infinity }] : game.segments;
+    const upper = rows.map((row, i) => {
+      const value = column[i].upper;
+      return value === undefined ? null : { x: toX(row.date, i), y: toY(value) };
+    });
+    const lower = rows.map((row, i) => upper[i] && { x: toX(row.date, i), y: toY(log ? yMin : column[i].lower) });
+    segments.forEach(segment => {
+      const inside = rows.map(row => row.date >= segment.from && row.date <= segment.to);
+      const segmentUpper = upper.map((point, i) => inside[i] ? point : null);
+      if (stacked || type === 'area') {
+        const segmentLower = lower.map((point, i) => inside[i] ? point : null);
+        shapes.push({ d: bandPath(segmentUpper, segmentLower), fill: game.color, fillOpacity: stacked ? 0.5 : 0.15 });
+      }
+      shapes.push({ d: linePath(segmentUpper), stroke: game.color });
+    });
+  });
+
+  const yLabels: Label[] = yTicks.map(tick => ({
+    x: plot.x - 8,
+    y: toY(tick),
+    text: type === 'percent' ? `${Math.round(tick * 100)}%` : formatAxisValue(tick, scale),
+    size: 14,
+    color: colors.muted,
+    anchor: 'end',
+  }));
+
+  const dateFormat = getDateFormat(first, last);
+  const xCount = Math.max(2, Math.floor(plot.width / 180));
+  const xLabels: Label[] = rows.length === 0 ? [] : Array.from({ length: xCount }, (_, i) => {
+    const index = Math.round((i / (xCount - 1)) * (rows.length - 1));
+    const date = type === 'bar' ? rows[index].date : first + ((last - first) * i) / (xCount - 1);
+    return {
+      x: type === 'bar' ? toX(date, index) : toX(date, 0),
+      y: plot.y + plot.height + X_LABEL_HEIGHT / 2 + 4,
+      text: formatInTimeZone(date, dateFormat, timeZone),
+      size: 14,
+      color: colors.muted,
+      anchor: i === 0 && type !== 'bar' ? 'start' : i === xCount - 1 && type !== 'bar' ? 'end' : 'middle',
+    };
+  });
+
+  // Legend entries share the width evenly, one row
+  const legendY = size.height - PADDING - LEGEND_HEIGHT / 2;
+  const legendWidth = (size.width - PADDING * 2) / Math.max(series.length, 1);
+  const legendLabels: Label[] = style.legend ? series.map((game, index) => {
+    const x = PADDING + legendWidth * index;
+    shapes.push({ d: `M${x} ${legendY - 6}h12v12h-12Z`, fill: game.color });
+    return { x: x + 20, y: legendY, text: game.name, size: 16, color: colors.text, anchor: 'start' };
+  }) : [];
+
+  return {
+    ...size,
+    background: colors.background,
+    shapes,
+    labels: [
+      {
+        x: PADDING,
+        y: PADDING + 16,
+        text: series.map(game => game.name).join(' vs '),
+        size: 28,
+        color: colors.text,
+        anchor: 'start',
+        bold: true,
+      },
+      {
+        x: PADDING,
+        y: PADDING + 50,
+        text: `${formatInTimeZone(start, 'PP', timeZone)} – ${formatInTimeZone(end, 'PP', timeZone)} · Steam player counts`,
+        size: 16,
+        color: colors.muted,
+        anchor: 'start',
+      },
+      ...yLabels,
+      ...xLabels,
+      ...legendLabels,
+    ],
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const attributes = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(' ');
+
+export const renderPreviewSvg = (image: PreviewImage) => {
+  const { width, height } = image;
+  const shapes = image.shapes.map(shape => `<path ${attributes({
+    d: shape.d,
+    stroke: shape.stroke,
+    'stroke-width': shape.stroke ? shape.strokeWidth ?? 2 : undefined,
+    fill: shape.fill ?? 'none',
+    'fill-opacity': shape.fillOpacity,
+  })}/>`).join('');
+  const labels = image.labels.map(label => `<text ${attributes({
+    x: round(label.x),
+    y: round(label.y),
+    fill: label.color,
+    'font-size': label.size,
+    'font-weight': label.bold ? 'bold' : undefined,
+    'text-anchor': label.anchor,
+    'dominant-baseline': 'middle',
+  })}>${escapeXml(label.text)}</text>`).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" `
+    + `font-family="Arial, Helvetica, sans-serif">`
+    + (image.background === 'transparent' ? '' : `<rect width="100%" height="100%" fill="${escapeXml(image.background)}"/>`)
+    + shapes
+    + labels
+    + '</svg>';
+};
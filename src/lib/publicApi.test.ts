@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { paginate, parsePage, type ApiSuccess } from './publicApi';
+
+// Every page of `items`, following `meta.next` from the first
+const allPages = <T extends { date: number }>(items: T[], limit: number) => {
+  const pages: T[][] = [];
+  let url: URL | null = new URL(`http://localhost/api/v1/games/730/history?limit=${limit}`);
+  while (url) {
+    const page: ApiSuccess<T[]> = paginate(items, parsePage(url.searchParams), url);
+    pages.push(page.data);
+    url = page.meta?.next ? new URL(page.meta.next as string) : null;
+  }
+  return pages;
+};
+
+describe('paginate', () => {
+  it('splits a list into pages of `limit` items', () => {
+    const items = [1, 2, 3, 4, 5].map(date => ({ date }));
+
+    expect(allPages(items, 2)).toEqual([[{ date: 1 }, { date: 2 }], [{ date: 3 }, { date: 4 }], [{ date: 5 }]]);
+  });
+
+  it('neither skips nor repeats items sharing a date across pages', () => {
+    const items = [1, 2, 2, 2, 2, 2, 3].map((date, index) => ({ date, index }));
+
+    const pages = allPages(items, 2);
+    expect(pages.flat()).toEqual(items);
+    expect(pages.map(page => page.length)).toEqual([2, 2, 2, 1]);
+  });
+
+  it('rejects cursors it did not make', () => {
+    const params = new URLSearchParams({ cursor: Buffer.from('1700000000000').toString('base64url') });
+
+    expect(() => parsePage(params)).toThrow(/cursor/);
+  });
+});
+
+describe('handlePublicRequest', () => {
+  let dir: string;
+  const ok = async () => ({ data: {}, headers: { 'Cache-Control': 'public, max-age=60' } });
+
+  // publicApi and apiKeys read their settings when loaded
+  const load = async (env: Record<string, string>) => {
+    vi.resetModules();
+    Object.entries({ API_KEYS_FILE: path.join(dir, 'api-keys.json'), ...env }).forEach(([name, value]) => vi.stubEnv(name, value));
+    return (await import('./publicApi')).handlePublicRequest;
+  };
+  const request = (headers: Record<string, string> = {}) => new Request('http://localhost/api/v1/games/730', { headers });
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'public-api-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(path.join(dir, 'api-keys.json'), { force: true });
+  });
+
+  it('refuses every request without a key file unless the API is opened', async () => {
+    const handlePublicRequest = await load({});
+
+    const response = await handlePublicRequest(request(), ok);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: { code: 'unauthorized', message: 'A valid API key is required' } });
+  });
+
+  it('limits open access by the address the proxy saw, not the one the client claims', async () => {
+    const handlePublicRequest = await load({ PUBLIC_API_OPEN: '1', API_RATE_LIMIT: '2' });
+    const from = (claimed: string) => request({ 'X-Forwarded-For': `${claimed}, 203.0.113.7` });
+
+    const statuses = [];
+    for (const claimed of ['10.0.0.1', '10.0.0.2', '10.0.0.3']) {
+      statuses.push((await handlePublicRequest(from(claimed), ok)).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('limits callers that send a key by the key, wherever they call from', async () => {
+    await fs.writeFile(path.join(dir, 'api-keys.json'), JSON.stringify({ keys: [{ name: 'dashboards', key: 'k1', requestsPerMinute: 1 }] }));
+    const handlePublicRequest = await load({ PUBLIC_API_OPEN: '1' });
+    const keyed = (address: string) => request({ 'X-API-Key': 'k1', 'X-Forwarded-For': address });
+
+    const first = await handlePublicRequest(keyed('203.0.113.7'), ok);
+    const second = await handlePublicRequest(keyed('203.0.113.8'), ok);
+    const wrongKey = await handlePublicRequest(request({ 'X-API-Key': 'nope' }), ok);
+
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('1');
+    expect(second.status).toBe(429);
+    expect(wrongKey.status).toBe(401);
+  });
+
+  it('keeps responses to keyed requests out of shared caches', async () => {
+    const handlePublicRequest = await load({ PUBLIC_API_OPEN: '1' });
+
+    const response = await handlePublicRequest(request(), ok);
+
+    expect(response.headers.get('Cache-Control')).toBe('private, max-age=60');
+    expect(response.headers.get('Vary')).toContain('X-API-Key');
+  });
+});
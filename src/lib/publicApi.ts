@@ -0,0 +1,225 @@
+import { NextResponse } from 'next/server';
+import { API_ERROR_STATUS, type ApiErrorCode } from './apiErrors';
+import { findApiKey, loadApiKeys, PUBLIC_API_OPEN } from './apiKeys';
+import { UpstreamError } from './upstream';
+
+// Request pipeline of the read-only /api/v1 routes: API keys, per-client
+// rate limits, CORS and one envelope for every response:
+//   { "data": ..., "meta": { ... } }                  on success
+//   { "error": { "code": "...", "message": "..." } }  on failure
+
+export type ApiSuccess<T> = {
+  data: T;
+  meta?: Record<string, unknown>;
+};
+
+export type ApiFailure = {
+  error: { code: ApiErrorCode; message: string };
+};
+
+// What a v1 handler returns: the body to wrap and any extra headers, or a
+// finished response such as a 304
+export type ApiResult<T> = (ApiSuccess<T> & { headers?: Record<string, string> }) | Response;
+
+// Requests per minute for clients without a limit of their own
+export const DEFAULT_RATE_LIMIT = Number(process.env.API_RATE_LIMIT) || 60;
+const RATE_WINDOW_MS = 60 * 1000;
+// Expired windows are swept once this many clients are being tracked
+const MAX_TRACKED_CLIENTS = 10_000;
+
+// Origins allowed to call the API from a browser, `*` for any
+const CORS_ORIGINS = (process.env.API_CORS_ORIGINS ?? '*').split(',').map(origin => origin.trim()).filter(Boolean);
+
+export const DEFAULT_PAGE_SIZE = 1000;
+export const MAX_PAGE_SIZE = 10_000;
+
+const corsHeaders = (request: Request): Record<string, string> => {
+  const origin = request.headers.get('Origin');
+  const allowed = CORS_ORIGINS.includes('*') ? '*' : origin !== null && CORS_ORIGINS.includes(origin) ? origin : null;
+  return {
+    ...(allowed !== null ? { 'Access-Control-Allow-Origin': allowed } : {}),
+    ...(allowed !== '*' ? { 'Vary': 'Origin' } : {}),
+    'Access-Control-Expose-Headers': 'ETag, Last-Modified, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
+  };
+};
+
+// Answer a CORS preflight for any v1 route
+export const preflight = (request: Request) =>
+  new Response(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders(request),
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, X-API-Key, If-None-Match, If-Modified-Since',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+
+const failure = (code: ApiErrorCode, message: string, headers: Record<string, string>) =>
+  NextResponse.json<ApiFailure>({ error: { code, message } }, { status: API_ERROR_STATUS[code], headers });
+
+// The key from `X-API-Key` or `Authorization: Bearer <key>`
+const readKey = (request: Request) =>
+  request.headers.get('X-API-Key') ?? /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') ?? '')?.[1] ?? null;
+
+// The caller's address as seen by the proxy in front of the server. Vercel
+// sets X-Real-IP itself; other proxies append the address they saw to
+// X-Forwarded-For, so only its last entry is trusted; earlier ones come from
+// the client and can be anything.
+const clientAddress = (request: Request) => {
+  if (process.env.VERCEL) return request.headers.get('X-Real-IP') || 'unknown';
+  return request.headers.get('X-Forwarded-For')?.split(',').pop()?.trim() || 'unknown';
+};
+
+// Who is calling, for rate limiting: the key's name when a valid key is sent,
+// or the client address when PUBLIC_API_OPEN lets callers in without one.
+// Null when the caller isn't allowed in.
+const identify = async (request: Request): Promise<{ id: string; limit: number } | null> => {
+  const candidate = readKey(request);
+  if (candidate === null) {
+    return PUBLIC_API_OPEN ? { id: `ip:${clientAddress(request)}`, limit: DEFAULT_RATE_LIMIT } : null;
+  }
+
+  const keys = await loadApiKeys();
+  const key = keys ? findApiKey(keys, candidate) : undefined;
+  return key ? { id: `key:${key.name}`, limit: key.requestsPerMinute ?? DEFAULT_RATE_LIMIT } : null;
+};
+
+// Fixed one-minute windows per client, kept in memory: each server instance
+// counts on its own
+const windows = new Map<string, { start: number; count: number }>();
+
+const consume = (id: string, limit: number) => {
+  const now = Date.now();
+  if (windows.size > MAX_TRACKED_CLIENTS) {
+    windows.forEach((window, client) => {
+      if (now - window.start >= RATE_WINDOW_MS) windows.delete(client);
+    });
+  }
+
+  const current = windows.get(id);
+  const window = current && now - current.start < RATE_WINDOW_MS ? current : { start: now, count: 0 };
+  window.count++;
+  windows.set(id, window);
+
+  const reset = window.start + RATE_WINDOW_MS;
+  return {
+    allowed: window.count <= limit,
+    headers: {
+      'X-RateLimit-Limit': String(limit),
+      'X-RateLimit-Remaining': String(Math.max(0, limit - window.count)),
+      'X-RateLimit-Reset': String(Math.ceil(reset / 1000)),
+    },
+    retryAfter: Math.ceil((reset - now) / 1000),
+  };
+};
+
+// Responses to keyed requests must not be shared between clients by caches
+// along the way
+const keepPrivate = (response: Response) => {
+  const cacheControl = response.headers.get('Cache-Control');
+  if (cacheControl) response.headers.set('Cache-Control', cacheControl.replace(/\bpublic\b/, 'private'));
+  response.headers.append('Vary', 'Authorization, X-API-Key');
+  return response;
+};
+
+// Run a v1 handler behind the API's checks and wrap what it returns.
+// Handlers throw UpstreamError for anything the caller should see, including
+// bad input. Pass `auth: false` for routes open to everyone, like the spec.
+export const handlePublicRequest = async <T>(
+  request: Request,
+  handler: () => Promise<ApiResult<T>>,
+  { auth = true }: { auth?: boolean } = {}
+): Promise<Response> => {
+  const headers = corsHeaders(request);
+
+  if (auth) {
+    let client: Awaited<ReturnType<typeof identify>>;
+    try {
+      client = await identify(request);
+    } catch (error) {
+      console.error(error);
+      return failure('internal', 'API keys could not be loaded', headers);
+    }
+    if (!client) {
+      return failure('unauthorized', 'A valid API key is required', { ...headers, 'WWW-Authenticate': 'Bearer' });
+    }
+
+    const usage = consume(client.id, client.limit);
+    Object.assign(headers, usage.headers);
+    if (!usage.allowed) {
+      return failure('rate_limited', `Rate limit of ${client.limit} requests per minute exceeded`, {
+        ...headers,
+        'Retry-After': String(usage.retryAfter),
+      });
+    }
+  }
+
+  try {
+    const result = await handler();
+    let response: Response;
+    if (result instanceof Response) {
+      Object.entries(headers).forEach(([name, value]) => result.headers.set(name, value));
+      response = result;
+    } else {
+      const { headers: extra, ...body } = result;
+      response = NextResponse.json<ApiSuccess<T>>(body, { headers: { ...headers, ...extra } });
+    }
+    return auth ? keepPrivate(response) : response;
+  } catch (error) {
+    if (error instanceof UpstreamError) return failure(error.code, error.message, headers);
+    console.error(error);
+    return failure('internal', 'Something went wrong', headers);
+  }
+};
+
+export type Page = {
+  limit: number;
+  // Date of the last item on the previous page, and how many items with that
+  // date it and the pages before it held
+  after: { date: number; seen: number } | null;
+};
+
+// Read `limit` and `cursor`. Cursors are opaque to clients; they hold where
+// the previous page stopped, so items sharing a date are neither skipped nor
+// repeated.
+export const parsePage = (params: URLSearchParams): Page => {
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new UpstreamError('bad_input', `"limit" must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor === null) return { limit, after: null };
+
+  const match = /^(-?\d+):(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) throw new UpstreamError('bad_input', '"cursor" is not a cursor from a previous page');
+  return { limit, after: { date: Number(match[1]), seen: Number(match[2]) } };
+};
+
+// One page of a date-sorted list, with the cursor and URL of the next page
+// in `meta`
+export const paginate = <T extends { date: number }>(items: T[], { limit, after }: Page, url: URL): ApiSuccess<T[]> => {
+  const first = after === null ? 0 : items.findIndex(item => item.date >= after.date);
+  const start = first === -1 ? items.length : first + (after?.seen ?? 0);
+  const data = items.slice(start, start + limit);
+  const hasMore = start + limit < items.length;
+
+  let nextCursor: string | null = null;
+  if (hasMore) {
+    const last = data[data.length - 1].date;
+    const end = start + data.length;
+    let seen = 0;
+    while (seen < end && items[end - seen - 1].date === last) seen++;
+    nextCursor = Buffer.from(`${last}:${seen}`).toString('base64url');
+  }
+
+  let next: string | null = null;
+  if (nextCursor) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set('cursor', nextCursor);
+    next = nextUrl.toString();
+  }
+
+  return { data, meta: { limit, count: data.length, total: items.length, nextCursor, next } };
+};
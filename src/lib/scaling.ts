@@ -0,0 +1,110 @@
+import { bandKeys, type ChartRow, type SeriesSource } from './chartData';
+import { pointExtremes } from './downsample';
+import { forecastKeys } from './forecast';
+
+// How each series is put on the Y axis so games of very different sizes stay
+// comparable
+export type ScaleMode = 'linear' | 'log' | 'peak' | 'indexed' | 'share';
+
+export const SCALE_MODES: ScaleMode[] = ['linear', 'log', 'peak', 'indexed', 'share'];
+
+export const SCALE_LABELS: Record<ScaleMode, string> = {
+  linear: 'Players',
+  log: 'Players (log scale)',
+  peak: '% of all-time peak',
+  indexed: 'Indexed (start = 100)',
+  share: 'Share of group total',
+};
+
+// Row key that keeps a game's unscaled count next to its scaled value
+export const rawKey = (name: string) => `${name} (raw)`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Rewrite chart rows into the chosen scale. Each game gets one factor per
+// row, which is applied to its value and to its min–max band alike.
+export const applyScale = (rows: ChartRow[], games: SeriesSource[], mode: ScaleMode): ChartRow[] => {
+  if (mode === 'linear') return rows;
+
+  const peaks = new Map(games.map(game => [
+    game.name,
+    game.data.reduce((peak, point) => Math.max(peak, pointExtremes(point).max), 0),
+  ]));
+
+  // First non-zero value in the visible range, used as each game's index base
+  const bases = new Map<string, number>();
+  games.forEach(game => {
+    const first = rows.find(row => (row[game.name] ?? 0) > 0);
+    if (first) bases.set(game.name, first[game.name]);
+  });
+
+  return rows.map(row => {
+    // Keys this pass doesn't know about (e.g. calendar dates) pass through
+    const scaled: ChartRow = { ...row };
+    const total = games.reduce((sum, game) => sum + (row[game.name] ?? 0), 0);
+
+    games.forEach(game => {
+      let factor: number | null;
+      switch (mode) {
+        case 'log':
+          factor = 1;
+          break;
+        case 'peak':
+          factor = peaks.get(game.name) ? 100 / peaks.get(game.name)! : null;
+          break;
+        case 'indexed':
+          factor = bases.has(game.name) ? 100 / bases.get(game.name)! : null;
+          break;
+        case 'share':
+          // Only rows with actual values have a group total
+          factor = total > 0 ? 100 / total : null;
+          break;
+      }
+
+      const band = bandKeys(game.name);
+      const forecast = forecastKeys(game.name);
+      [game.name, band.min, band.max, forecast.value, forecast.lower, forecast.upper, forecast.backtest].forEach(key => {
+        if (row[key] === undefined) return;
+        // A log axis can't place zero, and a series without a base can't be
+        // scaled; leave a gap instead
+        if (factor === null || (mode === 'log' && row[key] <= 0)) {
+          delete scaled[key];
+        } else {
+          scaled[key] = round(row[key] * factor);
+        }
+      });
+      if (row[game.name] !== undefined) scaled[rawKey(game.name)] = row[game.name];
+    });
+
+    return scaled;
+  });
+};
+
+const compact = (value: number) =>
+  value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(0)}k` : `${value}`;
+
+export const formatAxisValue = (value: number, mode: ScaleMode): string => {
+  switch (mode) {
+    case 'peak':
+    case 'share':
+      return `${value}%`;
+    case 'indexed':
+      return `${value}`;
+    default:
+      return compact(value);
+  }
+};
+
+// Scaled value plus the real player count behind it, when there is one
+export const formatTooltipValue = (value: number, raw: number | undefined, mode: ScaleMode): string => {
+  const players = raw !== undefined ? ` (${raw.toLocaleString()})` : '';
+  switch (mode) {
+    case 'peak':
+    case 'share':
+      return `${value.toFixed(1)}%${players}`;
+    case 'indexed':
+      return `${value.toFixed(1)}${players}`;
+    default:
+      return value.toLocaleString();
+  }
+};
@@ -0,0 +1,36 @@
+import type { Game } from './types';
+
+// A store search hit with the details shown in the autocomplete
+export type SearchResult = Game & {
+  releaseDate: string | null;
+  comingSoon: boolean;
+  genres: string[];
+  developers: string[];
+  // Formatted for the store region, 'Free' for free-to-play, null when not sold
+  price: string | null;
+};
+
+// Store region (two-letter country code) and language (e.g. english, german)
+export type StoreLocale = {
+  cc: string;
+  l: string;
+};
+
+const APP_URL = /(?:store\.steampowered\.com|steamcommunity\.com|steamcharts\.com|steamdb\.info)\/app\/(\d+)/i;
+
+// The appid in a bare number or a store / SteamCharts / SteamDB app link
+export const parseAppReference = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (/^\d{1,10}$/.test(trimmed)) return trimmed;
+  return APP_URL.exec(trimmed)?.[1] ?? null;
+};
+
+// Read `cc` and `l`, or return an error message when either is malformed
+export const parseStoreLocale = (params: URLSearchParams, fallback: StoreLocale): StoreLocale | string => {
+  const cc = params.get('cc') ?? fallback.cc;
+  const l = params.get('l') ?? fallback.l;
+
+  if (!/^[a-z]{2}$/i.test(cc)) return '"cc" must be a two-letter country code';
+  if (!/^[a-z]{2,20}$/.test(l)) return '"l" must be a Steam language name such as english';
+  return { cc: cc.toUpperCase(), l };
+};
@@ -0,0 +1,59 @@
+import { getZonedParts } from './timezone';
+import type { HistoricalPoint } from './types';
+
+// Rows are weekdays starting on Monday, columns are hours 0–23
+export const HEATMAP_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export type Heatmap = {
+  // cells[weekday][hour] is the average player count, or null without data
+  cells: (number | null)[][];
+  min: number;
+  max: number;
+  // Number of points that went into the heatmap
+  samples: number;
+};
+
+const MAX_HOURLY_GAP = 2 * 60 * 60 * 1000;
+
+// Average players by weekday × hour in `timeZone` for points in the range.
+// Only sub-daily data says anything about the hour of day, so points that sit
+// in a coarser stretch of the series (older daily or monthly samples) are
+// skipped.
+export const computeHeatmap = (
+  data: HistoricalPoint[],
+  startDate: number,
+  endDate: number,
+  timeZone: string
+): Heatmap => {
+  const sums = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => ({ sum: 0, count: 0 })));
+  let samples = 0;
+
+  const sorted = data
+    .filter(point => point.date >= startDate && point.date <= endDate)
+    .sort((a, b) => a.date - b.date);
+
+  sorted.forEach((point, i) => {
+    const hourly = (i > 0 && point.date - sorted[i - 1].date <= MAX_HOURLY_GAP)
+      || (i < sorted.length - 1 && sorted[i + 1].date - point.date <= MAX_HOURLY_GAP);
+    if (!hourly) return;
+
+    const parts = getZonedParts(point.date, timeZone);
+    // Monday-first rows
+    const cell = sums[(parts.weekday + 6) % 7][parts.hour];
+    cell.sum += point.count;
+    cell.count += 1;
+    samples += 1;
+  });
+
+  let min = Infinity;
+  let max = -Infinity;
+  const cells = sums.map(row => row.map(({ sum, count }) => {
+    if (count === 0) return null;
+    const average = sum / count;
+    min = Math.min(min, average);
+    max = Math.max(max, average);
+    return average;
+  }));
+
+  return { cells, min: Number.isFinite(min) ? min : 0, max: Number.isFinite(max) ? max : 0, samples };
+};
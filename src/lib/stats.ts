@@ -0,0 +1,74 @@
+import type { AggregatedPoint } from './chartData';
+import { pointExtremes } from './downsample';
+import type { Heatmap } from './seasonality';
+
+export type PeakStat = {
+  count: number;
+  date: number;
+};
+
+export type GameStats = {
+  allTimePeak: PeakStat | null;
+  rangePeak: PeakStat | null;
+  average: number | null;
+  median: number | null;
+  // Percent change from the first to the last point in range
+  change: number | null;
+  // Percent change of the last 30 days' average against the 30 days before
+  monthOverMonth: number | null;
+  // Average players after the in-range peak, as a percent of that peak
+  retentionAfterPeak: number | null;
+};
+
+const MONTH = 30 * 24 * 60 * 60 * 1000;
+
+// What /api/stats returns for one game or group over a range
+export type GameSummary = {
+  stats: GameStats;
+  heatmap: Heatmap;
+};
+
+const findPeak = (points: AggregatedPoint[]): PeakStat | null =>
+  points.reduce<PeakStat | null>((peak, point) => {
+    const count = pointExtremes(point).max;
+    return peak === null || count > peak.count ? { count, date: point.date } : peak;
+  }, null);
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const percentChange = (from: number | null, to: number | null) =>
+  from !== null && to !== null && from > 0 ? ((to - from) / from) * 100 : null;
+
+// Summary numbers for one game's points inside [startDate, endDate]. The
+// averages only mean something on full-resolution data, which is why the
+// page asks /api/stats instead of using its downsampled overview.
+export const computeGameStats = (data: AggregatedPoint[], startDate: number, endDate: number): GameStats => {
+  const inRange = data
+    .filter(point => point.date >= startDate && point.date <= endDate)
+    .sort((a, b) => a.date - b.date);
+  const counts = inRange.map(point => point.count);
+  const sorted = [...counts].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  const rangePeak = findPeak(inRange);
+  const afterPeak = rangePeak ? inRange.filter(point => point.date > rangePeak.date).map(point => point.count) : [];
+  const lastEnd = inRange.length > 0 ? inRange[inRange.length - 1].date : endDate;
+
+  const lastMonth = mean(inRange.filter(point => point.date > lastEnd - MONTH).map(point => point.count));
+  const previousMonth = mean(inRange
+    .filter(point => point.date > lastEnd - 2 * MONTH && point.date <= lastEnd - MONTH)
+    .map(point => point.count));
+
+  const retention = mean(afterPeak);
+
+  return {
+    allTimePeak: findPeak(data),
+    rangePeak,
+    average: mean(counts),
+    median: sorted.length === 0 ? null : sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    change: inRange.length > 1 ? percentChange(counts[0], counts[counts.length - 1]) : null,
+    monthOverMonth: percentChange(previousMonth, lastMonth),
+    retentionAfterPeak: rangePeak && rangePeak.count > 0 && retention !== null ? (retention / rangePeak.count) * 100 : null,
+  };
+};
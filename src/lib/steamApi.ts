@@ -0,0 +1,21 @@
+import { assertAppid, isRecord, upstreamJson, UpstreamError } from './upstream';
+
+// Overridable so tests and local development can point at a mock server
+const STEAM_API_BASE_URL = process.env.STEAM_API_BASE_URL ?? 'https://api.steampowered.com';
+
+// Steam reports success with result === 1; anything else means no count
+const parseCurrentPlayers = (data: unknown): number | undefined => {
+  if (!isRecord(data) || !isRecord(data.response)) return undefined;
+  const { player_count: playerCount, result } = data.response;
+  if (result !== 1) throw new UpstreamError('not_tracked', 'Steam has no player count for this app');
+  return typeof playerCount === 'number' ? playerCount : undefined;
+};
+
+// Live concurrent player count from the Steam Web API
+export const fetchCurrentPlayers = async (appid: string): Promise<number> => {
+  assertAppid(appid);
+  return upstreamJson(
+    `${STEAM_API_BASE_URL}/ISteamUserStats/GetNumberOfCurrentPlayers/v1/?appid=${appid}`,
+    parseCurrentPlayers
+  );
+};
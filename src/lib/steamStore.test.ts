@@ -0,0 +1,94 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A stand-in for the Steam Store: search finds apps 1–6, appdetails knows
+// each of them and answers after `detailsDelay` milliseconds
+const detailsRequested: string[] = [];
+let detailsDelay = 0;
+let server: Server;
+let steamStore: typeof import('./steamStore');
+let store: typeof import('./store');
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (body: unknown) => {
+      if (res.destroyed) return;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname.startsWith('/api/storesearch')) {
+      send({ items: [1, 2, 3, 4, 5, 6].map(id => ({ id, name: `Game ${id}`, tiny_image: `capsule-${id}.jpg` })) });
+      return;
+    }
+    const appid = url.searchParams.get('appids') ?? '';
+    detailsRequested.push(appid);
+    setTimeout(() => send({
+      [appid]: { success: true, data: { name: `Game ${appid}`, genres: [{ description: 'Action' }], developers: ['Valve'] } },
+    }), detailsDelay);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  // Both are read when the modules load
+  vi.stubEnv('STEAM_STORE_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv('UPSTREAM_MIN_INTERVAL_MS', '1');
+  steamStore = await import('./steamStore');
+  store = await import('./store');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  store.setCacheStore(store.createMemoryStore());
+  detailsRequested.length = 0;
+  detailsDelay = 0;
+});
+
+describe('searchStore', () => {
+  it('fetches details for the top hits only', async () => {
+    const results = await steamStore.searchStore('game', steamStore.DEFAULT_STORE_LOCALE, { detailed: 2 });
+
+    expect(results).toHaveLength(6);
+    expect(detailsRequested.sort()).toEqual(['1', '2']);
+    expect(results[0]).toMatchObject({ genres: ['Action'], developers: ['Valve'], tiny_image: 'capsule-1.jpg' });
+    expect(results[2]).toMatchObject({ genres: [], developers: [] });
+  });
+
+  it('fills in the other hits from cached details', async () => {
+    await steamStore.fetchStoreDetails('5');
+    detailsRequested.length = 0;
+
+    const results = await steamStore.searchStore('game', steamStore.DEFAULT_STORE_LOCALE, { detailed: 2 });
+
+    expect(detailsRequested.sort()).toEqual(['1', '2']);
+    expect(results[4]).toMatchObject({ genres: ['Action'] });
+    expect(results[3]).toMatchObject({ genres: [] });
+  });
+
+  it('reuses cached details across searches', async () => {
+    await steamStore.searchStore('game', steamStore.DEFAULT_STORE_LOCALE, { detailed: 3 });
+    await steamStore.searchStore('game', steamStore.DEFAULT_STORE_LOCALE, { detailed: 3 });
+
+    expect(detailsRequested.sort()).toEqual(['1', '2', '3']);
+  });
+
+  it('stops fetching details once the caller aborts', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    detailsDelay = 200;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    await steamStore.searchStore('game', steamStore.DEFAULT_STORE_LOCALE, { detailed: 6, signal: controller.signal });
+
+    // Only the first concurrent round was started
+    expect(detailsRequested.length).toBeLessThan(6);
+    expect(console.error).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,177 @@
+import { BATCH_CONCURRENCY, runWithConcurrency } from './historyBatch';
+import { parseAppReference, type SearchResult, type StoreLocale } from './search';
+import { getCacheStore } from './store';
+import { assertAppid, isRecord, upstreamJson, UpstreamError } from './upstream';
+import type { Game } from './types';
+
+// Overridable so tests and local development can point at a mock server
+const STEAM_STORE_BASE_URL = process.env.STEAM_STORE_BASE_URL ?? 'https://store.steampowered.com';
+
+// Region and language used when a request doesn't pick its own
+export const DEFAULT_STORE_LOCALE: StoreLocale = {
+  cc: process.env.STEAM_STORE_REGION ?? 'US',
+  l: process.env.STEAM_STORE_LANGUAGE ?? 'english',
+};
+
+const MAX_TERM_LENGTH = 100;
+
+// Only the top hits get release date, genres and developer, each of which
+// costs an appdetails request; details are cached for a day and the rest of
+// the hits get them only when already cached. The page's suggestions, asked
+// for on every pause in typing, settle for fewer.
+const MAX_DETAILED_RESULTS = 10;
+export const SUGGESTION_DETAILED_RESULTS = 3;
+const DETAILS_TTL_MS = 24 * 60 * 60 * 1000;
+
+type CachedDetails = {
+  result: SearchResult;
+  fetchedAt: number;
+};
+
+export type SearchOptions = {
+  // How many of the top hits may fetch their store details
+  detailed?: number;
+  // Stops outstanding Steam requests, e.g. when the client goes away
+  signal?: AbortSignal;
+};
+
+const strings = (value: unknown, pick: (item: Record<string, unknown>) => unknown = item => item): string[] =>
+  Array.isArray(value)
+    ? value.map(item => typeof item === 'string' ? item : isRecord(item) ? pick(item) : undefined)
+      .filter((item): item is string => typeof item === 'string')
+    : [];
+
+const formatPrice = (price: unknown): string | null => {
+  if (!isRecord(price)) return null;
+  if (typeof price.final_formatted === 'string') return price.final_formatted;
+  if (typeof price.final !== 'number' || typeof price.currency !== 'string') return null;
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency: price.currency }).format(price.final / 100);
+  } catch {
+    return null;
+  }
+};
+
+const parseSearchItem = (item: unknown): SearchResult | undefined => {
+  if (!isRecord(item) || typeof item.id !== 'number' || typeof item.name !== 'string') return undefined;
+  return {
+    id: item.id,
+    name: item.name,
+    tiny_image: typeof item.tiny_image === 'string' ? item.tiny_image : '',
+    releaseDate: null,
+    comingSoon: false,
+    genres: [],
+    developers: [],
+    price: formatPrice(item.price),
+  };
+};
+
+const parseDetails = (appid: string, data: unknown): SearchResult | undefined => {
+  if (!isRecord(data) || !isRecord(data[appid])) return undefined;
+  const entry = data[appid];
+  if (!entry.success || !isRecord(entry.data)) throw new UpstreamError('not_tracked', `Unknown app ${appid}`);
+
+  const details = entry.data;
+  if (typeof details.name !== 'string') return undefined;
+  const release = isRecord(details.release_date) ? details.release_date : {};
+
+  return {
+    id: Number(appid),
+    name: details.name,
+    tiny_image: typeof details.header_image === 'string' ? details.header_image : '',
+    releaseDate: typeof release.date === 'string' && release.date ? release.date : null,
+    comingSoon: release.coming_soon === true,
+    genres: strings(details.genres, genre => genre.description),
+    developers: strings(details.developers),
+    price: details.is_free === true ? 'Free' : formatPrice(details.price_overview),
+  };
+};
+
+const detailsKey = (appid: string, locale: StoreLocale) => `appdetails:${appid}:${locale.cc}:${locale.l}`;
+
+// Store details from the cache only, when they are fresh enough
+const cachedStoreDetails = async (appid: string, locale: StoreLocale): Promise<SearchResult | undefined> => {
+  const cached = await getCacheStore().get<CachedDetails>(detailsKey(appid, locale));
+  return cached && Date.now() - cached.fetchedAt <= DETAILS_TTL_MS ? cached.result : undefined;
+};
+
+// Release date, genres, developer and price of one app in the given region
+export const fetchStoreDetails = async (
+  appid: string,
+  locale: StoreLocale = DEFAULT_STORE_LOCALE,
+  signal?: AbortSignal
+): Promise<SearchResult> => {
+  assertAppid(appid);
+
+  const cached = await cachedStoreDetails(appid, locale);
+  if (cached) return cached;
+
+  const params = new URLSearchParams({ appids: appid, cc: locale.cc, l: locale.l });
+  const result = await upstreamJson(
+    `${STEAM_STORE_BASE_URL}/api/appdetails?${params}`,
+    data => parseDetails(appid, data),
+    { signal }
+  );
+  await getCacheStore().set<CachedDetails>(detailsKey(appid, locale), { result, fetchedAt: Date.now() });
+  return result;
+};
+
+// Name and image for a single appid, in the same shape as a search result
+export const fetchAppDetails = async (appid: string): Promise<Game> => {
+  const { id, name, tiny_image } = await fetchStoreDetails(appid);
+  return { id, name, tiny_image };
+};
+
+// Steam Store search results, the top ones with their store details
+export const searchStore = async (
+  term: string,
+  locale: StoreLocale = DEFAULT_STORE_LOCALE,
+  { detailed = MAX_DETAILED_RESULTS, signal }: SearchOptions = {}
+): Promise<SearchResult[]> => {
+  if (term.length > MAX_TERM_LENGTH) throw new UpstreamError('bad_input', 'Search term is too long');
+
+  const params = new URLSearchParams({ term, l: locale.l, cc: locale.cc });
+  const results = await upstreamJson(`${STEAM_STORE_BASE_URL}/api/storesearch/?${params}`, data => {
+    if (!isRecord(data) || !Array.isArray(data.items)) return undefined;
+    // Skip malformed entries rather than failing the whole search
+    return data.items.map(parseSearchItem).filter((game): game is SearchResult => game !== undefined);
+  }, { signal });
+
+  await runWithConcurrency(results, BATCH_CONCURRENCY, async result => {
+    if (signal?.aborted) return;
+    try {
+      const appid = String(result.id);
+      const details = results.indexOf(result) < detailed
+        ? await fetchStoreDetails(appid, locale, signal)
+        : await cachedStoreDetails(appid, locale);
+      // Keep the search's small capsule image, take everything else
+      if (details) Object.assign(result, { ...details, tiny_image: result.tiny_image || details.tiny_image });
+    } catch (error) {
+      // A hit without details is still a usable hit
+      if (!signal?.aborted) console.error(`Could not load store details for ${result.id}`, error);
+    }
+  });
+
+  return results;
+};
+
+// What a search for `term` finds: the app itself when the term is an appid
+// or a store link, otherwise the store search results
+export const findGames = async (
+  term: string,
+  locale: StoreLocale = DEFAULT_STORE_LOCALE,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> => {
+  const appid = parseAppReference(term);
+  if (appid) {
+    try {
+      return [await fetchStoreDetails(appid, locale, options.signal)];
+    } catch (error) {
+      if (!(error instanceof UpstreamError && error.code === 'not_tracked')) throw error;
+      // An unknown link finds nothing, but a bare number may still be part of a name
+      if (!/^\d+$/.test(term)) return [];
+    }
+  }
+
+  return searchStore(term, locale, options);
+};
@@ -0,0 +1,35 @@
+import { assertAppid, upstreamJson } from './upstream';
+import type { HistoricalPoint } from './types';
+
+// Overridable so tests and local development can point at a stand-in server
+const STEAMCHARTS_BASE_URL = process.env.STEAMCHARTS_BASE_URL ?? 'https://steamcharts.com';
+
+// The lifetime series can be large, so it gets longer than other requests
+const STEAMCHARTS_TIMEOUT_MS = Number(process.env.STEAMCHARTS_TIMEOUT_MS) || 20_000;
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+// Format data: [timestamp (ms), count]
+// SteamCharts timestamps are usually in milliseconds already, or seconds * 1000
+const parseChartData = (data: unknown): HistoricalPoint[] | undefined => {
+  if (!Array.isArray(data)) return undefined;
+
+  const points: HistoricalPoint[] = [];
+  for (const point of data) {
+    if (!Array.isArray(point) || typeof point[0] !== 'number' || typeof point[1] !== 'number') return undefined;
+    points.push({
+      date: point[0],
+      count: point[1]
+    });
+  }
+  return points;
+};
+
+// Fetch the full lifetime series for a game from SteamCharts
+export const fetchChartData = async (appid: string): Promise<HistoricalPoint[]> => {
+  assertAppid(appid);
+  return upstreamJson(`${STEAMCHARTS_BASE_URL}/app/${appid}/chart-data.json`, parseChartData, {
+    headers: { 'User-Agent': USER_AGENT },
+    timeoutMs: STEAMCHARTS_TIMEOUT_MS,
+  });
+};
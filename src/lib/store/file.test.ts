@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileStore } from './file';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('createFileStore', () => {
+  it('survives concurrent writes to the same key', async () => {
+    const store = createFileStore(dir);
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.set('key', { value: i })));
+
+    expect(await store.get<{ value: number }>('key')).toMatchObject({ value: expect.any(Number) });
+    expect(await fs.readdir(dir)).toEqual(['key.json']);
+  });
+
+  it('lets one store at a time hold a lock, across instances', async () => {
+    const [first, second] = [createFileStore(dir), createFileStore(dir)];
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      order.push(`${name} end`);
+    };
+
+    await Promise.all([first.withLock('key', task('first')), second.withLock('key', task('second'))]);
+
+    // Whichever got the lock first finished before the other started
+    expect(order[1]).toBe(order[0].replace('start', 'end'));
+    expect(order).toHaveLength(4);
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('takes over a lock left behind by a dead process', async () => {
+    const lock = path.join(dir, 'key.json.lock');
+    await fs.writeFile(lock, '1');
+    const past = new Date(Date.now() - 60_000);
+    await fs.utimes(lock, past, past);
+
+    await expect(createFileStore(dir).withLock('key', async () => 'done')).resolves.toBe('done');
+  });
+
+  it('reports a directory it cannot write to', async () => {
+    const file = path.join(dir, 'not-a-directory');
+    await fs.writeFile(file, '');
+
+    await expect(createFileStore(path.join(file, 'store')).check?.()).rejects.toThrow(/not a writable directory/);
+    await expect(createFileStore(dir).check?.()).resolves.toBeUndefined();
+  });
+});
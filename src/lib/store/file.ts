@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+import { constants, promises as fs } from 'fs';
+import path from 'path';
+import { acquireLock, createLockQueue, LOCK_TTL_MS } from './lock';
+import type { StoreAdapter } from './types';
+
+// One JSON file per key inside `dir`. Survives restarts, which makes it the
+// right choice for a long-running server or the collector script.
+export const createFileStore = (dir: string): StoreAdapter => {
+  const fileFor = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+  const queue = createLockQueue();
+
+  // Lock files are created exclusively, so only one process can hold one;
+  // a lock older than LOCK_TTL_MS was left behind by a process that died
+  const tryLock = async (lock: string) => {
+    try {
+      await fs.writeFile(lock, String(process.pid), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    const stat = await fs.stat(lock).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > LOCK_TTL_MS) await fs.rm(lock, { force: true });
+    return false;
+  };
+
+  return {
+    get: async <T>(key: string) => {
+      try {
+        const raw = await fs.readFile(fileFor(key), 'utf8');
+        return JSON.parse(raw) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+    set: async (key, value) => {
+      await fs.mkdir(dir, { recursive: true });
+      // Write to a temp file first so readers never see a half-written value.
+      // Each write gets its own, so concurrent writes to a key can't collide.
+      const target = fileFor(key);
+      const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(value));
+      await fs.rename(temp, target);
+    },
+    delete: async (key) => {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    keys: async (prefix = '') => {
+      try {
+        const files = await fs.readdir(dir);
+        return files
+          .filter(file => file.endsWith('.json'))
+          .map(file => decodeURIComponent(file.slice(0, -'.json'.length)))
+          .filter(key => key.startsWith(prefix));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+    // One process at a time through the lock file, and one task at a time
+    // within this process
+    withLock: (key, task) => queue(key, async () => {
+      const lock = `${fileFor(key)}.lock`;
+      await fs.mkdir(dir, { recursive: true });
+      await acquireLock(key, () => tryLock(lock));
+      try {
+        return await task();
+      } finally {
+        await fs.rm(lock, { force: true });
+      }
+    }),
+    check: async () => {
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.access(dir, constants.W_OK);
+      } catch (error) {
+        throw new Error(`STORE_DIR "${dir}" is not a writable directory`, { cause: error });
+      }
+    },
+    persistent: true,
+  };
+};
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getStore, setStore } from '.';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  setStore(null);
+});
+
+describe('getStore', () => {
+  it('refuses the file store on Vercel', () => {
+    vi.stubEnv('VERCEL', '1');
+
+    expect(() => getStore()).toThrow(/STORE_ADAPTER=file can't keep data on Vercel/);
+  });
+
+  it('needs both Upstash variables for redis', () => {
+    vi.stubEnv('STORE_ADAPTER', 'redis');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://example.upstash.io');
+
+    expect(() => getStore()).toThrow(/UPSTASH_REDIS_REST_TOKEN/);
+
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'secret');
+    expect(getStore().persistent).toBe(true);
+  });
+});
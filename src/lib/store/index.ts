@@ -0,0 +1,70 @@
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import { createRedisStore } from './redis';
+import type { StoreAdapter } from './types';
+
+export type { StoreAdapter } from './types';
+export { createFileStore } from './file';
+export { createMemoryStore } from './memory';
+export { createRedisStore } from './redis';
+
+let store: StoreAdapter | null = null;
+let cacheStore: StoreAdapter | null = null;
+
+const createAdapter = (variable: 'STORE_ADAPTER' | 'CACHE_ADAPTER', fallback: 'file' | 'memory'): StoreAdapter => {
+  const name = process.env[variable] ?? fallback;
+  switch (name) {
+    case 'file':
+      // Vercel's disk is read-only and every instance has its own
+      if (process.env.VERCEL) {
+        throw new Error(
+          `${variable}=file can't keep data on Vercel; set ${variable}=redis with UPSTASH_REDIS_REST_URL and ` +
+          `UPSTASH_REDIS_REST_TOKEN, or ${variable}=memory to run without keeping it`
+        );
+      }
+      return createFileStore(process.env.STORE_DIR ?? '.data');
+    case 'memory':
+      return createMemoryStore();
+    case 'redis': {
+      const url = process.env.UPSTASH_REDIS_REST_URL;
+      const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) throw new Error(`${variable}=redis needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN`);
+      return createRedisStore(url, token);
+    }
+    default:
+      throw new Error(`Unknown ${variable} "${name}"`);
+  }
+};
+
+// Data users create or collect (saved comparisons, annotations, alert rules,
+// player-count samples), so it is kept on disk unless told otherwise:
+//   STORE_ADAPTER=file (default) | redis | memory
+//   STORE_DIR=.data
+export const getStore = (): StoreAdapter => {
+  store ??= createAdapter('STORE_ADAPTER', 'file');
+  return store;
+};
+
+// Upstream responses that can always be fetched again:
+//   CACHE_ADAPTER=memory (default) | file | redis
+export const getCacheStore = (): StoreAdapter => {
+  cacheStore ??= createAdapter('CACHE_ADAPTER', 'memory');
+  return cacheStore;
+};
+
+// Run once when the server starts (src/instrumentation.ts), so a store that
+// is misconfigured or can't be written stops the server with a clear message
+// instead of failing requests later
+export const checkStores = async () => {
+  await getStore().check?.();
+  await getCacheStore().check?.();
+};
+
+// Swap the active stores, e.g. to inject fresh memory stores in tests
+export const setStore = (adapter: StoreAdapter | null) => {
+  store = adapter;
+};
+
+export const setCacheStore = (adapter: StoreAdapter | null) => {
+  cacheStore = adapter;
+};
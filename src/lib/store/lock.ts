@@ -0,0 +1,30 @@
+// A lock held outside this process is given up as stale after this long,
+// and taking one gives up after waiting this long
+export const LOCK_TTL_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+
+// Run tasks for the same key one after another within this process
+export const createLockQueue = () => {
+  const tails = new Map<string, Promise<void>>();
+
+  return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const result = (tails.get(key) ?? Promise.resolve()).then(task);
+    const tail = result.then(() => {}, () => {});
+    tails.set(key, tail);
+    void tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+    return result;
+  };
+};
+
+// Keep trying to take a lock shared with other processes until
+// `tryAcquire` succeeds or the wait times out
+export const acquireLock = async (name: string, tryAcquire: () => Promise<boolean>): Promise<void> => {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!(await tryAcquire())) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for the lock on "${name}"`);
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+};
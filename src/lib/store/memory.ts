@@ -0,0 +1,26 @@
+import { createLockQueue } from './lock';
+import type { StoreAdapter } from './types';
+
+// Process-local store. Fast, but lost on restart and not shared between
+// serverless instances.
+export const createMemoryStore = (): StoreAdapter => {
+  const entries = new Map<string, string>();
+
+  return {
+    get: async <T>(key: string) => {
+      const raw = entries.get(key);
+      return raw === undefined ? undefined : (JSON.parse(raw) as T);
+    },
+    set: async (key, value) => {
+      // Store serialized copies so callers can't mutate cached values
+      entries.set(key, JSON.stringify(value));
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    keys: async (prefix = '') =>
+      Array.from(entries.keys()).filter(key => key.startsWith(prefix)),
+    withLock: createLockQueue(),
+    persistent: false,
+  };
+};
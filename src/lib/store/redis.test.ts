@@ -0,0 +1,103 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createRedisStore } from './redis';
+
+// A stand-in for the Upstash REST API: GET, SET (with NX), DEL, SCAN and the
+// lock release script, over an in-memory map
+const data = new Map<string, string>();
+let server: Server;
+let url: string;
+
+const run = ([name, ...args]: string[]): unknown => {
+  switch (name) {
+    case 'GET':
+      return data.get(args[0]) ?? null;
+    case 'SET':
+      if (args.includes('NX') && data.has(args[0])) return null;
+      data.set(args[0], args[1]);
+      return 'OK';
+    case 'DEL':
+      return Number(data.delete(args[0]));
+    case 'SCAN': {
+      const prefix = args[2].slice(0, -1).replace(/\\(.)/g, '$1');
+      // Two pages, to make the store follow the cursor
+      const keys = [...data.keys()].filter(key => key.startsWith(prefix));
+      return args[0] === '0' ? ['1', keys.slice(0, 1)] : ['0', keys.slice(1)];
+    }
+    case 'EVAL':
+      return data.get(args[2]) === args[3] ? Number(data.delete(args[2])) : 0;
+  }
+  throw new Error(`ERR unknown command '${name}'`);
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+      if (req.headers.authorization !== 'Bearer secret') {
+        res.writeHead(401).end(JSON.stringify({ error: 'Unauthorized' }));
+        return;
+      }
+      try {
+        res.end(JSON.stringify({ result: run(JSON.parse(body)) }));
+      } catch (error) {
+        res.writeHead(400).end(JSON.stringify({ error: (error as Error).message }));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  data.clear();
+});
+
+describe('createRedisStore', () => {
+  it('stores values as JSON', async () => {
+    const store = createRedisStore(url, 'secret');
+
+    await store.set('comparison:1', { name: 'Shooters' });
+
+    expect(await store.get('comparison:1')).toEqual({ name: 'Shooters' });
+    expect(await store.get('comparison:2')).toBeUndefined();
+    await store.delete('comparison:1');
+    expect(await store.get('comparison:1')).toBeUndefined();
+  });
+
+  it('lists keys by prefix across scan pages, without locks', async () => {
+    const store = createRedisStore(url, 'secret');
+    await Promise.all(['a:1', 'a:2', 'a:3', 'b:1'].map(key => store.set(key, 1)));
+
+    await store.withLock('a:1', async () => {
+      expect((await store.keys('a:')).sort()).toEqual(['a:1', 'a:2', 'a:3']);
+      expect(await store.keys()).toHaveLength(4);
+    });
+  });
+
+  it('lets one store at a time hold a lock, and releases it', async () => {
+    const [first, second] = [createRedisStore(url, 'secret'), createRedisStore(url, 'secret')];
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      order.push(`${name} end`);
+    };
+
+    await Promise.all([first.withLock('key', task('first')), second.withLock('key', task('second'))]);
+
+    expect(order[1]).toBe(order[0].replace('start', 'end'));
+    expect(data.size).toBe(0);
+  });
+
+  it('reports errors from the server', async () => {
+    await expect(createRedisStore(url, 'wrong').get('key')).rejects.toThrow(/Redis GET failed: Unauthorized/);
+  });
+});
@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+import { acquireLock, createLockQueue, LOCK_TTL_MS } from './lock';
+import type { StoreAdapter } from './types';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Locks live next to the data under their own prefix
+const LOCK_PREFIX = 'lock:';
+
+// Deletes the lock only while it still holds our token, so a lock that
+// expired and was taken by someone else is left alone
+const RELEASE_SCRIPT = "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
+
+// SCAN patterns are globs; match the prefix literally
+const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, '\\$&');
+
+// Redis spoken over the Upstash REST API, which Vercel's Redis integrations
+// provide. Shared by every serverless instance, so it suits deployments
+// without a disk of their own.
+export const createRedisStore = (url: string, token: string): StoreAdapter => {
+  const command = async <T>(...args: (string | number)[]): Promise<T> => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args.map(String)),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json || json.error !== undefined) {
+      throw new Error(`Redis ${args[0]} failed: ${json?.error ?? `HTTP ${res.status}`}`);
+    }
+    return json.result as T;
+  };
+  const queue = createLockQueue();
+
+  return {
+    get: async <T>(key: string) => {
+      const raw = await command<string | null>('GET', key);
+      return raw === null ? undefined : (JSON.parse(raw) as T);
+    },
+    set: async (key, value) => {
+      await command('SET', key, JSON.stringify(value));
+    },
+    delete: async (key) => {
+      await command('DEL', key);
+    },
+    keys: async (prefix = '') => {
+      const keys: string[] = [];
+      let cursor = '0';
+      do {
+        const [next, batch] = await command<[string, string[]]>('SCAN', cursor, 'MATCH', `${escapeGlob(prefix)}*`, 'COUNT', 1000);
+        keys.push(...batch.filter(key => !key.startsWith(LOCK_PREFIX)));
+        cursor = next;
+      } while (cursor !== '0');
+      return keys;
+    },
+    // SET NX takes the lock atomically; it expires after LOCK_TTL_MS in case
+    // its holder dies
+    withLock: (key, task) => queue(key, async () => {
+      const lock = `${LOCK_PREFIX}${key}`;
+      const owner = randomUUID();
+      await acquireLock(key, async () => (await command<string | null>('SET', lock, owner, 'NX', 'PX', LOCK_TTL_MS)) === 'OK');
+      try {
+        return await task();
+      } finally {
+        await command('EVAL', RELEASE_SCRIPT, 1, lock, owner);
+      }
+    }),
+    persistent: true,
+  };
+};
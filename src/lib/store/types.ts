@@ -0,0 +1,15 @@
+// Minimal key/value contract every storage backend has to implement.
+// Values must be JSON-serializable so adapters can persist them as-is.
+export type StoreAdapter = {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  keys: (prefix?: string) => Promise<string[]>;
+  // Run `task` holding an exclusive lock on `key`, shared by every process
+  // using the same backend, so read-modify-write updates can't interleave
+  withLock: <T>(key: string, task: () => Promise<T>) => Promise<T>;
+  // Throws when the backend can't keep data as configured
+  check?: () => Promise<void>;
+  // Whether values survive a restart of the process
+  persistent: boolean;
+};
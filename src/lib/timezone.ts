@@ -0,0 +1,128 @@
+import { format } from 'date-fns';
+
+// Timezone handling on top of Intl, so dates can be shown and entered in a
+// zone other than the browser's. 'local' means the browser's own zone.
+export const LOCAL_TIME_ZONE = 'local';
+
+type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  // 0 = Sunday, like Date#getDay
+  weekday: number;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    }));
+  }
+  return formatters.get(timeZone)!;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  if (timeZone === LOCAL_TIME_ZONE) return true;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// IANA name of the zone that 'local' stands for
+export const resolveTimeZone = (timeZone: string) =>
+  timeZone === LOCAL_TIME_ZONE ? Intl.DateTimeFormat().resolvedOptions().timeZone : timeZone;
+
+// Wall-clock fields of an instant in the given zone
+export const getZonedParts = (time: number, timeZone: string): ZonedParts => {
+  if (timeZone === LOCAL_TIME_ZONE) {
+    const date = new Date(time);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(new Date(time)).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+const getOffset = (time: number, timeZone: string) => {
+  const p = getZonedParts(time, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(time / 1000) * 1000;
+};
+
+// The instant at which the wall clock in `timeZone` shows the given time
+export const zonedTime = (
+  year: number, month: number, day: number,
+  hour: number, minute: number, second: number, millisecond: number,
+  timeZone: string
+): number => {
+  if (timeZone === LOCAL_TIME_ZONE) {
+    return new Date(year, month - 1, day, hour, minute, second, millisecond).getTime();
+  }
+
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  const offset = getOffset(guess, timeZone);
+  const time = guess - offset;
+  // Re-check once in case the guess and the answer straddle a DST change
+  const corrected = getOffset(time, timeZone);
+  return corrected === offset ? time : guess - corrected;
+};
+
+// Parse a yyyy-MM-dd date input as the start (or end) of that day in the zone
+export const parseDateInput = (value: string, timeZone: string, endOfDay = false): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  return endOfDay
+    ? zonedTime(year, month, day, 23, 59, 59, 999, timeZone)
+    : zonedTime(year, month, day, 0, 0, 0, 0, timeZone);
+};
+
+// date-fns `format`, but reading the wall clock of `timeZone`
+export const formatInTimeZone = (time: number, pattern: string, timeZone: string) => {
+  if (timeZone === LOCAL_TIME_ZONE) return format(new Date(time), pattern);
+  const p = getZonedParts(time, timeZone);
+  return format(new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, time % 1000), pattern);
+};
+
+// Zones offered in the selector
+export const getTimeZoneOptions = (): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return [LOCAL_TIME_ZONE, 'UTC', ...zones.filter(zone => zone !== 'UTC')];
+};
@@ -0,0 +1,22 @@
+import type { DataQuality } from './dataQuality';
+
+// --- Shared Types ---
+export type Game = {
+  id: number;
+  name: string;
+  tiny_image: string;
+};
+
+export type HistoricalPoint = {
+  date: number;
+  count: number;
+};
+
+export type SelectedGame = Game & {
+  color: string;
+  data: HistoricalPoint[];
+  // Checked on the full history by the server, whatever `data` holds
+  quality?: DataQuality;
+  // Launch date override for the release-aligned view
+  release?: number;
+};
@@ -0,0 +1,47 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { upstreamFetch } from './upstream';
+
+// A server that never answers, so only a timeout or an abort ends a request
+let requests = 0;
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  server = createServer(() => {
+    requests++;
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = 0;
+});
+
+describe('upstreamFetch', () => {
+  it('times out without a signal of its own', async () => {
+    await expect(upstreamFetch(url, { timeoutMs: 100, retries: 0 })).rejects.toMatchObject({ code: 'upstream_down' });
+  });
+
+  it('stops as soon as the caller aborts, without retrying', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(upstreamFetch(url, { signal: controller.signal, retries: 2 })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toBe(1);
+  });
+
+  it('still times out when the caller passes a signal', async () => {
+    const controller = new AbortController();
+
+    await expect(upstreamFetch(url, { signal: controller.signal, timeoutMs: 100, retries: 0 }))
+      .rejects.toMatchObject({ code: 'upstream_down' });
+  });
+});
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { API_ERROR_STATUS, type ApiErrorCode } from './apiErrors';
+
+// Shared client for every third-party call: timeouts, retries with
+// exponential backoff, per-host rate limiting, response validation and
+// typed errors the routes can turn into specific responses.
+
+export class UpstreamError extends Error {
+  constructor(public readonly code: ApiErrorCode, message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+
+  get status() {
+    return API_ERROR_STATUS[this.code];
+  }
+}
+
+export type UpstreamRequest = RequestInit & {
+  timeoutMs?: number;
+  retries?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 300;
+const MAX_BACKOFF_MS = 10_000;
+
+// Minimum spacing between requests to one host. Requests that would have to
+// wait longer than MAX_QUEUE_MS fail fast as rate limited.
+const MIN_INTERVAL_MS = Number(process.env.UPSTREAM_MIN_INTERVAL_MS) || 200;
+const MAX_QUEUE_MS = 15_000;
+
+const nextSlot = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitForSlot = async (host: string) => {
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(host) ?? 0);
+  if (slot - now > MAX_QUEUE_MS) {
+    throw new UpstreamError('rate_limited', `Too many queued requests for ${host}`);
+  }
+  nextSlot.set(host, slot + MIN_INTERVAL_MS);
+  if (slot > now) await sleep(slot - now);
+};
+
+const backoff = (attempt: number, retryAfter: string | null) => {
+  const requested = retryAfter !== null ? Number(retryAfter) * 1000 : NaN;
+  if (Number.isFinite(requested)) return Math.min(requested, MAX_BACKOFF_MS);
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * exponential, MAX_BACKOFF_MS);
+};
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+// fetch() with the client's policies. Resolves only with a 2xx response;
+// every other outcome becomes an UpstreamError.
+export const upstreamFetch = async (url: string, options: UpstreamRequest = {}): Promise<Response> => {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, ...init } = options;
+  const { host } = new URL(url);
+  let lastError: UpstreamError | null = null;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    init.signal?.throwIfAborted();
+    await waitForSlot(host);
+
+    // Give up on the timeout or when the caller aborts, whichever comes first
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+    let res: Response;
+    try {
+      res = await fetch(url, { cache: 'no-store', ...init, signal });
+    } catch (error) {
+      // Nobody is waiting for the answer any more, so don't retry
+      if (init.signal?.aborted) throw error;
+      const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+      lastError = new UpstreamError('upstream_down', timedOut ? `${host} timed out` : `${host} is unreachable`, error);
+      if (attempt < retries) await sleep(backoff(attempt, null));
+      continue;
+    }
+
+    if (res.ok) return res;
+
+    if (res.status === 404) throw new UpstreamError('not_tracked', `${host} has no data for this request`);
+    if (!isRetryable(res.status)) throw new UpstreamError('bad_input', `${host} rejected the request (${res.status})`);
+
+    lastError = res.status === 429
+      ? new UpstreamError('rate_limited', `${host} is rate limiting requests`)
+      : new UpstreamError('upstream_down', `${host} responded with ${res.status}`);
+    if (attempt < retries) await sleep(backoff(attempt, res.headers.get('Retry-After')));
+  }
+
+  throw lastError!;
+};
+
+// Fetch JSON and check its shape at runtime. `parse` throws (or returns
+// undefined) when the payload doesn't match.
+export const upstreamJson = async <T>(
+  url: string,
+  parse: (data: unknown) => T | undefined,
+  options?: UpstreamRequest
+): Promise<T> => {
+  const res = await upstreamFetch(url, options);
+  const { host } = new URL(url);
+
+  let data: unknown;
+  try {
+    data = await res.json();
+  } catch (error) {
+    throw new UpstreamError('invalid_response', `${host} did not return JSON`, error);
+  }
+
+  let parsed: T | undefined;
+  try {
+    parsed = parse(data);
+  } catch (error) {
+    // Parsers may throw a more specific error themselves (e.g. not tracked)
+    if (error instanceof UpstreamError) throw error;
+    throw new UpstreamError('invalid_response', `${host} returned an unexpected payload`, error);
+  }
+  if (parsed === undefined) throw new UpstreamError('invalid_response', `${host} returned an unexpected payload`);
+  return parsed;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Appids are positive integers; anything else never reaches an upstream
+export const assertAppid = (appid: string) => {
+  if (!/^\d{1,10}$/.test(appid)) throw new UpstreamError('bad_input', `"${appid}" is not a valid appid`);
+};
+
+// Turn any error into the routes' `{ error, code }` envelope
+export const errorResponse = (error: unknown, fallback: string) => {
+  if (error instanceof UpstreamError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  console.error(error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
@@ -0,0 +1,137 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isPrivateHost, validateAlertInput, type AlertEvent } from './alerts';
+import { deliverAlert } from './webhooks';
+
+// A local webhook receiver that records what it gets and answers with
+// `status`
+let status = 204;
+const received: { path: string; body: unknown }[] = [];
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', body: JSON.parse(body) });
+      if (status >= 300 && status < 400) res.setHeader('Location', 'http://169.254.169.254/latest/meta-data');
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  status = 204;
+  received.length = 0;
+  vi.stubEnv('ALERT_ALLOW_PRIVATE_WEBHOOKS', '1');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const event = (path: string): AlertEvent => ({
+  rule: {
+    id: 'rule-1',
+    appid: 730,
+    condition: 'above',
+    threshold: 1000,
+    webhookUrl: `${origin}${path}`,
+    format: 'generic',
+    cooldownMinutes: 60,
+    enabled: true,
+    createdAt: 0,
+  },
+  gameName: 'Counter-Strike 2',
+  value: 1500,
+  triggeredAt: Date.UTC(2024, 0, 1),
+});
+
+describe('deliverAlert', () => {
+  it('posts the payload to the receiver', async () => {
+    await deliverAlert(event('/hook'));
+
+    expect(received).toEqual([{
+      path: '/hook',
+      body: expect.objectContaining({ type: 'alert.triggered', game: { appid: 730, name: 'Counter-Strike 2' }, value: 1500 }),
+    }]);
+  });
+
+  it.each([404, 400, 410, 500])('reports a %i from the receiver as a failed delivery', async code => {
+    status = code;
+
+    await expect(deliverAlert(event('/hook'))).rejects.toMatchObject({ code: 'delivery_failed' });
+  });
+
+  it('does not resend a delivery the receiver failed', async () => {
+    status = 503;
+
+    await expect(deliverAlert(event('/hook'))).rejects.toMatchObject({ code: 'delivery_failed' });
+    expect(received).toHaveLength(1);
+  });
+
+  it('does not follow redirects', async () => {
+    status = 302;
+
+    await expect(deliverAlert(event('/hook'))).rejects.toMatchObject({ code: 'delivery_failed' });
+    expect(received).toHaveLength(1);
+  });
+
+  it('refuses private hosts unless they are allowed', async () => {
+    vi.stubEnv('ALERT_ALLOW_PRIVATE_WEBHOOKS', '');
+
+    await expect(deliverAlert(event('/hook'))).rejects.toMatchObject({ code: 'delivery_failed' });
+    expect(received).toEqual([]);
+  });
+});
+
+describe('isPrivateHost', () => {
+  it.each([
+    'localhost', 'api.localhost', '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1',
+    '169.254.169.254', '100.64.0.1', '100.127.255.255', '0.0.0.0', '0.1.2.3', '192.0.0.170', '192.0.2.1',
+    '198.18.0.1', '198.19.255.255', '198.51.100.7', '203.0.113.7', '224.0.0.251', '239.255.255.250',
+    '240.0.0.1', '255.255.255.255',
+    '[::1]', '[::]', '[fd00::1]', '[fe80::1]', '[fec0::1]', '[ff02::1]', '[2001:db8::1]', '[2001::1]', '[100::1]',
+    '[::ffff:7f00:1]', '::ffff:10.0.0.1', '::ffff:0:a9fe:a9fe', '::ffff:0:127.0.0.1', '::127.0.0.1',
+    '[64:ff9b::a00:1]', '64:ff9b::192.168.0.1', '[64:ff9b:1::1]', '[2002:7f00:1::]', '[2002:c0a8:101::1]',
+    'fe80::1%eth0', '1::2::3', 'not:an:address',
+  ])('treats %s as private', host => {
+    expect(isPrivateHost(host)).toBe(true);
+  });
+
+  it.each([
+    'discord.com', 'hooks.slack.com', '8.8.8.8', '100.63.255.255', '100.128.0.1', '172.32.0.1', '192.169.0.1',
+    '198.20.0.1', '223.255.255.255', '[2606:4700::1111]', '[::ffff:808:808]', '64:ff9b::8.8.8.8', '[2002:808:808::1]',
+  ])(
+    'treats %s as public',
+    host => {
+      expect(isPrivateHost(host)).toBe(false);
+    }
+  );
+});
+
+describe('validateAlertInput', () => {
+  const input = (webhookUrl: string) => ({ appid: 730, condition: 'above', threshold: 1000, webhookUrl });
+
+  it('rejects webhooks pointing into the local network', () => {
+    vi.stubEnv('ALERT_ALLOW_PRIVATE_WEBHOOKS', '');
+
+    for (const url of ['http://169.254.169.254/latest', 'http://localhost:3000/', 'http://2130706433/', 'http://[::1]/']) {
+      expect(validateAlertInput(input(url)).error).toMatch(/public/);
+    }
+    expect(validateAlertInput(input('https://discord.com/api/webhooks/1/abc')).error).toBeUndefined();
+  });
+
+  it('accepts local webhooks when they are allowed', () => {
+    expect(validateAlertInput(input('http://127.0.0.1:8998/hook')).error).toBeUndefined();
+  });
+});
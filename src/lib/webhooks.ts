@@ -0,0 +1,121 @@
+import { lookup } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import type { LookupFunction } from 'net';
+import { allowsPrivateWebhooks, describeAlert, isPrivateHost, type AlertEvent, type WebhookFormat } from './alerts';
+import { UpstreamError } from './upstream';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+const CONDITION_COLORS = {
+  above: 0x22c55e,
+  below: 0xef4444,
+  change: 0xf59e0b,
+};
+
+const chartUrl = (appid: number) => `https://steamcharts.com/app/${appid}`;
+
+// Request body for each webhook format
+export const buildWebhookPayload = (format: WebhookFormat, event: AlertEvent): unknown => {
+  const { rule, gameName, value, baseline, changePercent, triggeredAt, test } = event;
+  const message = describeAlert(event);
+
+  switch (format) {
+    case 'generic':
+      return {
+        type: test ? 'alert.test' : 'alert.triggered',
+        message,
+        rule: { id: rule.id, appid: rule.appid, condition: rule.condition, threshold: rule.threshold },
+        game: { appid: rule.appid, name: gameName },
+        value,
+        ...(baseline !== undefined ? { baseline, changePercent } : {}),
+        triggeredAt: new Date(triggeredAt).toISOString(),
+      };
+    // https://discord.com/developers/docs/resources/webhook#execute-webhook
+    case 'discord':
+      return {
+        content: message,
+        embeds: [{
+          title: gameName,
+          url: chartUrl(rule.appid),
+          color: CONDITION_COLORS[rule.condition],
+          fields: [
+            { name: 'Players', value: value.toLocaleString('en-US'), inline: true },
+            ...(changePercent !== undefined
+              ? [{ name: 'Change (24h)', value: `${changePercent.toFixed(1)}%`, inline: true }]
+              : []),
+          ],
+          timestamp: new Date(triggeredAt).toISOString(),
+        }],
+      };
+    // https://api.slack.com/messaging/webhooks
+    case 'slack':
+      return {
+        text: message,
+        blocks: [{
+          type: 'section',
+          text: { type: 'mrkdwn', text: `*<${chartUrl(rule.appid)}|${gameName}>*\n${message}` },
+        }],
+      };
+  }
+};
+
+// Error code of lookups refused by publicLookup
+const PRIVATE_ADDRESS = 'EPRIVATEADDRESS';
+
+// dns.lookup that refuses names resolving to a private address. Rules are
+// checked when saved, but a public name can still resolve to a private
+// address; checking in the lookup itself means the socket connects to the
+// address that was checked, so the name can't be pointed elsewhere between
+// the check and the connection.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.some(({ address }) => isPrivateHost(address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: PRIVATE_ADDRESS }), []);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POST a JSON body and resolve with the response status. Redirects are not
+// followed: one could lead anywhere, including back inside the network.
+const postJson = (url: URL, body: string) => new Promise<number>((resolve, reject) => {
+  const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    ...(allowsPrivateWebhooks() ? {} : { lookup: publicLookup }),
+  }, response => {
+    response.resume();
+    resolve(response.statusCode ?? 0);
+  });
+  request.on('error', reject);
+  request.end(body);
+});
+
+// POST the alert to the rule's webhook, once: deliveries aren't idempotent,
+// so a failed one is left to the next evaluation rather than resent. Throws
+// UpstreamError with code `delivery_failed` when the receiver can't be
+// reached or answers with anything but a 2xx.
+export const deliverAlert = async (event: AlertEvent): Promise<void> => {
+  const url = new URL(event.rule.webhookUrl);
+  // IP addresses are connected to without a lookup
+  if (!allowsPrivateWebhooks() && isPrivateHost(url.hostname)) {
+    throw new UpstreamError('delivery_failed', `Webhook host ${url.hostname} is not publicly reachable`);
+  }
+
+  let status: number;
+  try {
+    status = await postJson(url, JSON.stringify(buildWebhookPayload(event.rule.format, event)));
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === PRIVATE_ADDRESS
+      ? `${url.hostname} is not publicly reachable`
+      : (error as Error).name === 'AbortError' ? `${url.host} timed out` : `${url.host} is unreachable`;
+    throw new UpstreamError('delivery_failed', `Webhook delivery failed: ${reason}`, error);
+  }
+  if (status < 200 || status >= 300) {
+    throw new UpstreamError('delivery_failed', `Webhook delivery failed: ${url.host} responded with ${status}`);
+  }
+};